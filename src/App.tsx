@@ -11,9 +11,12 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Materials from "./pages/Materials";
 import Products from "./pages/Products";
+import Bundles from "./pages/Bundles";
 import Sales from "./pages/Sales";
 import Calculator from "./pages/Calculator";
+import ProductCosts from "./pages/ProductCosts";
 import Forecast from "./pages/Forecast";
+import Optimizer from "./pages/Optimizer";
 import Reports from "./pages/Reports";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
@@ -60,6 +63,16 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/bundles"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Bundles />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/sales"
               element={
@@ -80,6 +93,16 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/product-costs"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <ProductCosts />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/forecast"
               element={
@@ -90,6 +113,16 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/optimizer"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Optimizer />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/reports"
               element={
@@ -0,0 +1,34 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { hasBlockingIssues, type HPPIssue } from '@/lib/hpp-validation';
+
+interface HPPIssueAlertProps {
+  issues: HPPIssue[];
+  className?: string;
+}
+
+// Errors first; renders nothing when the product is valid
+export const HPPIssueAlert: React.FC<HPPIssueAlertProps> = ({ issues, className }) => {
+  if (issues.length === 0) return null;
+
+  const blocking = hasBlockingIssues(issues);
+  const sorted = [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+
+  return (
+    <Alert variant={blocking ? 'destructive' : 'default'} className={className}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{blocking ? 'Resep belum valid, HPP tidak dihitung' : 'Periksa data berikut'}</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1">
+          {sorted.map(issue => (
+            <li key={`${issue.code}:${issue.message}`}>
+              • {issue.message}
+              {blocking && issue.severity === 'warning' && <span className="text-muted-foreground"> (peringatan)</span>}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
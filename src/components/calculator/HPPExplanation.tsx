@@ -0,0 +1,75 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { formatCurrency } from '@/lib/hpp-calculator';
+import type { HPPTraceStep } from '@/types';
+
+interface HPPExplanationProps {
+  trace: HPPTraceStep[];
+}
+
+const SECTIONS: { key: HPPTraceStep['section']; label: string }[] = [
+  { key: 'material', label: 'Bahan Baku' },
+  { key: 'labor', label: 'Tenaga Kerja' },
+  { key: 'utility', label: 'Utilitas' },
+  { key: 'overhead', label: 'Overhead' },
+  { key: 'total', label: 'Total' },
+  { key: 'price', label: 'Harga Jual' },
+];
+
+const TraceLine: React.FC<{ step: HPPTraceStep; depth?: number }> = ({ step, depth = 0 }) => (
+  <li>
+    <div className="flex justify-between gap-4 py-1.5 text-sm" style={{ paddingLeft: depth * 16 }}>
+      <span>
+        <span className="font-medium">{depth > 0 && '└ '}{step.label}: </span>
+        <span className="font-mono text-muted-foreground">{step.formula}</span>
+      </span>
+      <span className="font-mono whitespace-nowrap">= {formatCurrency(step.value)}</span>
+    </div>
+    {step.children && step.children.length > 0 && (
+      <ul>
+        {step.children.map((child, i) => (
+          <TraceLine key={`${child.label}-${i}`} step={child} depth={depth + 1} />
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+// Step-by-step formulas behind the HPP, one expandable section per cost group
+export const HPPExplanation: React.FC<HPPExplanationProps> = ({ trace }) => {
+  const sections = SECTIONS
+    .map(section => ({ ...section, steps: trace.filter(step => step.section === section.key) }))
+    .filter(section => section.steps.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BookOpen className="w-5 h-5 text-accent" />
+          Penjelasan Perhitungan
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Accordion type="multiple">
+          {sections.map(section => (
+            <AccordionItem key={section.key} value={section.key}>
+              <AccordionTrigger>{section.label}</AccordionTrigger>
+              <AccordionContent>
+                <ul className="divide-y divide-border">
+                  {section.steps.map((step, i) => (
+                    <TraceLine key={`${step.label}-${i}`} step={step} />
+                  ))}
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+        <p className="text-xs text-muted-foreground mt-3">
+          Semua nilai per unit produk. Bahan sub-resep dihitung per satuan sub-resep.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { getSnapshots } from '@/lib/store';
+import { formatCurrency } from '@/lib/hpp-calculator';
+import { SNAPSHOT_TRIGGERS, diffSnapshots } from '@/lib/hpp-history';
+import type { HPPSnapshot } from '@/types';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+
+interface HPPHistoryProps {
+  productId: string;
+  refreshKey?: number; // Bump to reload after saving a snapshot
+}
+
+const KIND_LABELS = { material: 'Bahan', labor: 'Tenaga kerja', utility: 'Utilitas', overhead: 'Overhead' };
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('id-ID', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const HPPHistory: React.FC<HPPHistoryProps> = ({ productId, refreshKey }) => {
+  const [snapshots, setSnapshots] = useState<HPPSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getSnapshots(productId).then(loaded => {
+      if (cancelled) return;
+      setSnapshots(loaded);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [productId, refreshKey]);
+
+  const chartData = useMemo(() => snapshots.map(s => ({
+    date: s.computedAt.toLocaleDateString('id-ID', { day: 'numeric', month: 'short' }),
+    hpp: s.hppPerUnit,
+    price: s.suggestedPrice,
+  })), [snapshots]);
+
+  // Each snapshot against the one before it, newest first
+  const changes = useMemo(() => snapshots
+    .slice(1)
+    .map((snapshot, i) => ({ before: snapshots[i], after: snapshot, lines: diffSnapshots(snapshots[i], snapshot) }))
+    .reverse(), [snapshots]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5 text-accent" />
+          Riwayat HPP
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Memuat riwayat...</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Belum ada riwayat. Snapshot tersimpan otomatis saat bahan, produk, atau pengaturan berubah, atau klik "Simpan Snapshot".
+          </p>
+        ) : (
+          <>
+            <div className="h-[220px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    tickFormatter={(value) => `${(value / 1000).toFixed(1)}rb`}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                    formatter={(value: number, name: string) => [formatCurrency(value), name === 'hpp' ? 'HPP/Unit' : 'Harga Rekomendasi']}
+                  />
+                  <Legend formatter={(value) => (value === 'hpp' ? 'HPP/Unit' : 'Harga Rekomendasi')} />
+                  <Line type="stepAfter" dataKey="hpp" stroke="hsl(var(--primary))" strokeWidth={2} />
+                  <Line type="stepAfter" dataKey="price" stroke="hsl(var(--accent))" strokeWidth={2} strokeDasharray="4 4" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {changes.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-medium">Penyebab Perubahan</h4>
+                {changes.map(({ before, after, lines }) => {
+                  const delta = after.hppPerUnit - before.hppPerUnit;
+                  return (
+                    <div key={after.id} className="p-3 bg-muted/50 rounded-lg">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{formatDateTime(after.computedAt)}</span>
+                          <Badge variant="outline" className="text-xs font-normal">{SNAPSHOT_TRIGGERS[after.trigger]}</Badge>
+                        </div>
+                        <span className="text-sm font-mono">
+                          {formatCurrency(before.hppPerUnit)} → {formatCurrency(after.hppPerUnit)}
+                          <span className={delta > 0 ? 'ml-2 text-destructive' : 'ml-2 text-success'}>
+                            ({delta > 0 ? '+' : '-'}{formatCurrency(Math.abs(delta))})
+                          </span>
+                        </span>
+                      </div>
+                      {lines.length > 0 ? (
+                        <ul className="mt-2 space-y-1">
+                          {lines.map(line => (
+                            <li key={`${line.kind}:${line.name}`} className="flex justify-between text-sm text-muted-foreground">
+                              <span>{KIND_LABELS[line.kind]}: {line.name}</span>
+                              <span className="font-mono">
+                                {formatCurrency(line.before)} → {formatCurrency(line.after)}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="mt-2 text-sm text-muted-foreground">Tidak ada perubahan biaya</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
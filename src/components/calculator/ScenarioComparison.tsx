@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { GitCompare } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  applyScenario,
+  computeHPP,
+  formatCurrency,
+  formatNumber,
+  type HPPData,
+  type HPPOverrides,
+} from '@/lib/hpp-calculator';
+import type { HPPResult, HPPScenario, Product } from '@/types';
+
+interface ScenarioComparisonProps {
+  product: Product;
+  data: HPPData;
+  baseOverrides: HPPOverrides;
+  scenarios: HPPScenario[];
+}
+
+interface ComparisonColumn {
+  key: string;
+  name: string;
+  result: HPPResult | null;
+  error?: string;
+}
+
+// Baseline HPP next to each selected scenario, all from the same loaded data
+export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ product, data, baseOverrides, scenarios }) => {
+  const columns = useMemo<ComparisonColumn[]>(() => {
+    const run = (key: string, name: string, overrides: HPPOverrides): ComparisonColumn => {
+      try {
+        return { key, name, result: computeHPP(product, data, overrides) };
+      } catch (error) {
+        return { key, name, result: null, error: (error as Error).message };
+      }
+    };
+    return [
+      run('baseline', 'Saat Ini', baseOverrides),
+      ...scenarios.map(s => run(s.id, s.name, applyScenario(baseOverrides, s))),
+    ];
+  }, [product, data, baseOverrides, scenarios]);
+
+  const baseline = columns[0].result;
+
+  const rows: { label: string; value: (r: HPPResult) => number; isTotal?: boolean; higherIsBetter?: boolean }[] = [
+    { label: 'Biaya Bahan', value: r => r.breakdown.materialsTotal },
+    { label: 'Tenaga Kerja', value: r => r.breakdown.laborCost },
+    { label: 'Utilitas', value: r => r.breakdown.utilityCost },
+    { label: 'Overhead', value: r => r.breakdown.overheadCost },
+    { label: 'HPP per Unit', value: r => r.breakdown.hppPerUnit, isTotal: true },
+    { label: 'Harga Jual Rekomendasi', value: r => r.suggestedPrice, higherIsBetter: true },
+    { label: 'Laba per Unit', value: r => r.suggestedPrice - r.breakdown.hppPerUnit, higherIsBetter: true },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-accent" />
+          Perbandingan Skenario
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="bg-muted/50 rounded-lg overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left p-3 text-xs font-semibold text-muted-foreground uppercase">Komponen</th>
+                {columns.map(column => (
+                  <th key={column.key} className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">
+                    {column.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label} className={row.isTotal ? 'bg-muted' : 'border-b border-border'}>
+                  <td className={row.isTotal ? 'p-3 font-semibold' : 'p-3 font-medium'}>{row.label}</td>
+                  {columns.map(column => {
+                    if (!column.result) {
+                      return (
+                        <td key={column.key} className="p-3 text-right text-sm text-destructive">
+                          {column.error}
+                        </td>
+                      );
+                    }
+                    const value = row.value(column.result);
+                    const delta = baseline && column.key !== 'baseline' ? value - row.value(baseline) : 0;
+                    return (
+                      <td key={column.key} className={row.isTotal ? 'p-3 text-right font-mono font-bold' : 'p-3 text-right font-mono'}>
+                        {formatCurrency(value)}
+                        {delta !== 0 && (
+                          <span className={(delta > 0) !== !!row.higherIsBetter ? 'block text-xs text-destructive' : 'block text-xs text-success'}>
+                            {delta > 0 ? '+' : '-'}{formatCurrency(Math.abs(delta))}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr>
+                <td className="p-3 font-medium">Margin</td>
+                {columns.map(column => (
+                  <td key={column.key} className="p-3 text-right font-mono">
+                    {column.result
+                      ? `${formatNumber(column.result.suggestedPrice > 0
+                        ? ((column.result.suggestedPrice - column.result.breakdown.hppPerUnit) / column.result.suggestedPrice) * 100
+                        : 0, 1)}%`
+                      : '-'}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground mt-3">
+          Selisih dibandingkan parameter kalkulator saat ini. Warna merah berarti lebih buruk dari kondisi saat ini.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/hpp-calculator';
+import type { HPPScenario, LaborRate, Material } from '@/types';
+
+type ScenarioForm = Omit<HPPScenario, 'id' | 'updatedAt'>;
+
+interface ScenarioDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scenario: HPPScenario | null; // Null to create a new one
+  materials: Material[];
+  laborRates: LaborRate[];
+  onSave: (scenario: ScenarioForm) => Promise<void>;
+}
+
+const EMPTY_SCENARIO: ScenarioForm = { name: '', materialPrices: [] };
+
+// Blank optional inputs mean "keep the calculator's value"
+const parseOptional = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+export const ScenarioDialog: React.FC<ScenarioDialogProps> = ({
+  open,
+  onOpenChange,
+  scenario,
+  materials,
+  laborRates,
+  onSave,
+}) => {
+  const [formData, setFormData] = useState<ScenarioForm>(EMPTY_SCENARIO);
+
+  useEffect(() => {
+    if (!open) return;
+    if (scenario) {
+      setFormData({
+        name: scenario.name,
+        materialPrices: [...scenario.materialPrices],
+        laborMinutes: scenario.laborMinutes,
+        batchMinutes: scenario.batchMinutes,
+        laborRateId: scenario.laborRateId,
+        marginPercent: scenario.marginPercent,
+        monthlyProduction: scenario.monthlyProduction,
+      });
+    } else {
+      setFormData(EMPTY_SCENARIO);
+    }
+  }, [open, scenario]);
+
+  const handleAddMaterialPrice = () => {
+    const usedIds = formData.materialPrices.map(p => p.materialId);
+    const nextMaterial = materials.find(m => !usedIds.includes(m.id));
+    if (!nextMaterial) return;
+    setFormData({
+      ...formData,
+      materialPrices: [...formData.materialPrices, { materialId: nextMaterial.id, pricePerUnit: nextMaterial.pricePerUnit }],
+    });
+  };
+
+  const handleMaterialPriceChange = (index: number, field: 'materialId' | 'pricePerUnit', value: string | number) => {
+    const materialPrices = [...formData.materialPrices];
+    if (field === 'materialId') {
+      // Start from the material's current price
+      const material = materials.find(m => m.id === value);
+      materialPrices[index] = { materialId: value as string, pricePerUnit: material?.pricePerUnit ?? 0 };
+    } else {
+      materialPrices[index] = { ...materialPrices[index], pricePerUnit: Number(value) };
+    }
+    setFormData({ ...formData, materialPrices });
+  };
+
+  // Sets the override price from a % change against the current price
+  const handleMaterialPercentChange = (index: number, percent: number) => {
+    const material = materials.find(m => m.id === formData.materialPrices[index].materialId);
+    if (!material) return;
+    handleMaterialPriceChange(index, 'pricePerUnit', material.pricePerUnit * (1 + percent / 100));
+  };
+
+  const handleRemoveMaterialPrice = (index: number) => {
+    setFormData({ ...formData, materialPrices: formData.materialPrices.filter((_, i) => i !== index) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast({ title: 'Error', description: 'Nama skenario harus diisi', variant: 'destructive' });
+      return;
+    }
+    const materialIds = formData.materialPrices.map(p => p.materialId);
+    if (new Set(materialIds).size !== materialIds.length) {
+      toast({ title: 'Error', description: 'Setiap bahan hanya boleh diubah sekali', variant: 'destructive' });
+      return;
+    }
+    if (formData.materialPrices.some(p => p.pricePerUnit < 0)) {
+      toast({ title: 'Error', description: 'Harga bahan tidak boleh negatif', variant: 'destructive' });
+      return;
+    }
+    if (formData.marginPercent !== undefined && (formData.marginPercent < 0 || formData.marginPercent >= 100)) {
+      toast({ title: 'Error', description: 'Margin harus antara 0 dan kurang dari 100%', variant: 'destructive' });
+      return;
+    }
+    if (formData.monthlyProduction !== undefined && formData.monthlyProduction <= 0) {
+      toast({ title: 'Error', description: 'Produksi per bulan harus lebih dari 0', variant: 'destructive' });
+      return;
+    }
+
+    await onSave({ ...formData, name: formData.name.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{scenario ? 'Edit Skenario' : 'Tambah Skenario'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="scenario-name">Nama Skenario</Label>
+              <Input
+                id="scenario-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Contoh: Gula +20% atau Oven Baru"
+              />
+            </div>
+
+            {/* Material price overrides */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Harga Bahan</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={handleAddMaterialPrice}
+                  disabled={formData.materialPrices.length >= materials.length}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Ubah Harga
+                </Button>
+              </div>
+              {formData.materialPrices.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Semua bahan memakai harga saat ini</p>
+              ) : (
+                <div className="space-y-2">
+                  {formData.materialPrices.map((override, index) => {
+                    const material = materials.find(m => m.id === override.materialId);
+                    const changePercent = material && material.pricePerUnit > 0
+                      ? (override.pricePerUnit / material.pricePerUnit - 1) * 100
+                      : 0;
+                    return (
+                      <div key={index} className="flex gap-2 items-end">
+                        <div className="flex-1">
+                          <Select
+                            value={override.materialId}
+                            onValueChange={(value) => handleMaterialPriceChange(index, 'materialId', value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {materials.map(m => (
+                                <SelectItem key={m.id} value={m.id}>
+                                  {m.name} ({formatCurrency(m.pricePerUnit)}/{m.unit})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="w-32">
+                          <Label className="text-xs">Harga/{material?.unit ?? 'satuan'}</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            value={override.pricePerUnit}
+                            onChange={(e) => handleMaterialPriceChange(index, 'pricePerUnit', e.target.value)}
+                            className="input-currency"
+                          />
+                        </div>
+                        <div className="w-24">
+                          <Label className="text-xs">Perubahan %</Label>
+                          <Input
+                            type="number"
+                            value={Number(changePercent.toFixed(1))}
+                            onChange={(e) => handleMaterialPercentChange(index, Number(e.target.value))}
+                          />
+                        </div>
+                        <Button type="button" size="icon" variant="ghost" onClick={() => handleRemoveMaterialPrice(index)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Other overrides */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="scenario-labor">Waktu Kerja per Unit (menit)</Label>
+                <Input
+                  id="scenario-labor"
+                  type="number"
+                  min="0"
+                  value={formData.laborMinutes ?? ''}
+                  onChange={(e) => setFormData({ ...formData, laborMinutes: parseOptional(e.target.value) })}
+                  placeholder="Sesuai produk"
+                />
+              </div>
+              <div>
+                <Label htmlFor="scenario-batch">Persiapan per Batch (menit)</Label>
+                <Input
+                  id="scenario-batch"
+                  type="number"
+                  min="0"
+                  value={formData.batchMinutes ?? ''}
+                  onChange={(e) => setFormData({ ...formData, batchMinutes: parseOptional(e.target.value) })}
+                  placeholder="Sesuai produk"
+                />
+              </div>
+              <div>
+                <Label>Tarif Tenaga Kerja</Label>
+                <Select
+                  value={formData.laborRateId ?? 'default'}
+                  onValueChange={(value) => setFormData({ ...formData, laborRateId: value === 'default' ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Sesuai produk</SelectItem>
+                    {laborRates.map(rate => (
+                      <SelectItem key={rate.id} value={rate.id}>
+                        {rate.name} ({formatCurrency(rate.wagePerHour)}/jam)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="scenario-margin">Target Margin (%)</Label>
+                <Input
+                  id="scenario-margin"
+                  type="number"
+                  min="0"
+                  max="99"
+                  value={formData.marginPercent ?? ''}
+                  onChange={(e) => setFormData({ ...formData, marginPercent: parseOptional(e.target.value) })}
+                  placeholder="Sesuai kalkulator"
+                />
+              </div>
+              <div>
+                <Label htmlFor="scenario-production">Produksi per Bulan</Label>
+                <Input
+                  id="scenario-production"
+                  type="number"
+                  min="1"
+                  value={formData.monthlyProduction ?? ''}
+                  onChange={(e) => setFormData({ ...formData, monthlyProduction: parseOptional(e.target.value) })}
+                  placeholder="Sesuai kalkulator"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Kolom kosong memakai nilai kalkulator. Waktu kerja yang diisi menggantikan rute kerja produk.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Batal
+            </Button>
+            <Button type="submit">
+              {scenario ? 'Simpan Perubahan' : 'Simpan Skenario'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
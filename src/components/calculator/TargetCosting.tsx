@@ -0,0 +1,138 @@
+import React from 'react';
+import { Crosshair } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { formatCurrency, formatNumber } from '@/lib/hpp-calculator';
+import type { TargetCostResult } from '@/lib/target-costing';
+
+interface TargetCostingProps {
+  target: TargetCostResult;
+}
+
+// Allowable HPP for a fixed price, and the cuts that would reach it
+export const TargetCosting: React.FC<TargetCostingProps> = ({ target }) => {
+  const met = target.gap === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Crosshair className="w-5 h-5 text-accent" />
+          Target Costing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-sm text-muted-foreground">HPP Maksimal</p>
+            <p className="text-xl font-bold font-mono">{formatCurrency(target.allowableHPP)}</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatCurrency(target.targetPrice)} dengan margin {formatNumber(target.targetMarginPercent, 1)}%
+            </p>
+          </div>
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-sm text-muted-foreground">HPP Saat Ini</p>
+            <p className="text-xl font-bold font-mono">{formatCurrency(target.currentHPP)}</p>
+          </div>
+          <div className={met ? 'p-4 bg-success/10 rounded-lg' : 'p-4 bg-destructive/10 rounded-lg'}>
+            <p className="text-sm text-muted-foreground">{met ? 'Sisa Ruang' : 'Harus Dipangkas'}</p>
+            <p className={met ? 'text-xl font-bold font-mono text-success' : 'text-xl font-bold font-mono text-destructive'}>
+              {formatCurrency(met ? target.allowableHPP - target.currentHPP : target.gap)}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">per unit</p>
+          </div>
+        </div>
+
+        {/* Headroom per category */}
+        <div>
+          <h4 className="font-medium mb-3">Batas per Kategori Biaya</h4>
+          <div className="bg-muted/50 rounded-lg overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-3 text-xs font-semibold text-muted-foreground uppercase">Kategori</th>
+                  <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Saat Ini</th>
+                  <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Batas</th>
+                  <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Selisih</th>
+                </tr>
+              </thead>
+              <tbody>
+                {target.categories.map(category => (
+                  <tr key={category.key} className="border-b border-border last:border-0">
+                    <td className="p-3 font-medium">{category.label}</td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(category.current)}</td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(category.allowable)}</td>
+                    <td className={category.headroom < 0 ? 'p-3 text-right font-mono text-destructive' : 'p-3 text-right font-mono text-success'}>
+                      {category.headroom < 0 ? '-' : '+'}{formatCurrency(Math.abs(category.headroom))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Batas dibagi sesuai porsi tiap kategori dalam HPP saat ini.
+          </p>
+        </div>
+
+        {/* Per-material cuts */}
+        {!met && target.materials.length > 0 && (
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h4 className="font-medium">Penurunan Bahan yang Dibutuhkan</h4>
+              {target.allMaterialsReductionPercent !== null ? (
+                <Badge variant="secondary">
+                  Semua bahan turun {formatNumber(target.allMaterialsReductionPercent, 1)}%
+                </Badge>
+              ) : (
+                <Badge variant="destructive">Tidak tercapai lewat bahan saja</Badge>
+              )}
+            </div>
+            <div className="bg-muted/50 rounded-lg overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left p-3 text-xs font-semibold text-muted-foreground uppercase">Bahan</th>
+                    <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Turun</th>
+                    <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Harga Maks.</th>
+                    <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">atau Jumlah Maks./Unit</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {target.materials.map(material => (
+                    <tr key={material.name} className="border-b border-border last:border-0">
+                      <td className="p-3">
+                        <p className="font-medium">{material.name}</p>
+                        <p className="text-xs text-muted-foreground">{formatCurrency(material.currentCost)}/unit</p>
+                      </td>
+                      {material.reductionPercent !== null ? (
+                        <>
+                          <td className="p-3 text-right font-mono">{formatNumber(material.reductionPercent, 1)}%</td>
+                          <td className="p-3 text-right font-mono">
+                            {formatCurrency(material.requiredPrice!)}/{material.unit}
+                            <span className="block text-xs text-muted-foreground">dari {formatCurrency(material.pricePerUnit)}</span>
+                          </td>
+                          <td className="p-3 text-right font-mono">
+                            {formatNumber(material.requiredQuantity!, 3)} {material.unit}
+                            <span className="block text-xs text-muted-foreground">dari {formatNumber(material.quantity, 3)}</span>
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={3} className="p-3 text-right text-sm text-muted-foreground">
+                          Tidak cukup jika hanya bahan ini yang diturunkan
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Tiap baris menunjukkan penurunan jika hanya bahan itu yang diubah, lewat harga beli atau takaran.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -13,7 +13,10 @@ import {
   Menu,
   X,
   Boxes,
+  Gift,
   FileSpreadsheet,
+  ListOrdered,
+  Target,
   LogOut,
   Home,
 } from 'lucide-react';
@@ -28,9 +31,12 @@ const navItems: NavItem[] = [
   { href: '/dashboard', label: 'Dashboard', icon: <LayoutDashboard className="w-5 h-5" /> },
   { href: '/materials', label: 'Bahan Baku', icon: <Boxes className="w-5 h-5" /> },
   { href: '/products', label: 'Produk', icon: <Package className="w-5 h-5" /> },
+  { href: '/bundles', label: 'Paket', icon: <Gift className="w-5 h-5" /> },
   { href: '/sales', label: 'Penjualan', icon: <ShoppingCart className="w-5 h-5" /> },
   { href: '/calculator', label: 'Kalkulator HPP', icon: <Calculator className="w-5 h-5" /> },
+  { href: '/product-costs', label: 'HPP Semua Produk', icon: <ListOrdered className="w-5 h-5" /> },
   { href: '/forecast', label: 'Rekomendasi', icon: <TrendingUp className="w-5 h-5" /> },
+  { href: '/optimizer', label: 'Optimasi Produksi', icon: <Target className="w-5 h-5" /> },
   { href: '/reports', label: 'Laporan', icon: <FileSpreadsheet className="w-5 h-5" /> },
   { href: '/settings', label: 'Pengaturan', icon: <Settings className="w-5 h-5" /> },
 ];
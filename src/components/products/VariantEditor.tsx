@@ -0,0 +1,206 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatNumber } from '@/lib/hpp-calculator';
+import { getVariantOverride } from '@/lib/variants';
+import type { Material, ProductIngredient, ProductVariant, RecipeUnit } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+interface VariantEditorProps {
+  variants: ProductVariant[];
+  onChange: (variants: ProductVariant[]) => void;
+  ingredients: ProductIngredient[]; // The base recipe
+  materials: Material[];
+  getIngredientName: (ingredient: ProductIngredient) => string;
+  getIngredientUnit: (ingredient: ProductIngredient) => RecipeUnit | undefined;
+}
+
+// Sizes of a product: a scale on the base recipe, per-ingredient amounts,
+// and packaging and labor that only the variant needs
+export const VariantEditor: React.FC<VariantEditorProps> = ({
+  variants,
+  onChange,
+  ingredients,
+  materials,
+  getIngredientName,
+  getIngredientUnit,
+}) => {
+  const baseIngredients = ingredients.filter(i => i.materialId || i.subProductId);
+
+  const update = (index: number, changes: Partial<ProductVariant>) => {
+    onChange(variants.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...variants,
+      { id: uuidv4(), name: '', scaleFactor: 1, ingredientOverrides: [], extraIngredients: [], extraLaborMinutes: 0 },
+    ]);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(variants.filter((_, i) => i !== index));
+  };
+
+  // An empty value goes back to the scaled base quantity
+  const handleOverrideChange = (index: number, ingredient: ProductIngredient, value: string) => {
+    const variant = variants[index];
+    const others = variant.ingredientOverrides.filter(o => o !== getVariantOverride(variant, ingredient));
+    update(index, {
+      ingredientOverrides: value === ''
+        ? others
+        : [...others, { materialId: ingredient.materialId, subProductId: ingredient.subProductId, quantity: Number(value) }],
+    });
+  };
+
+  const handleExtraChange = (index: number, extraIndex: number, changes: Partial<ProductIngredient>) => {
+    const variant = variants[index];
+    update(index, {
+      extraIngredients: variant.extraIngredients.map((e, i) => (i === extraIndex ? { ...e, ...changes } : e)),
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <Label>Varian / Ukuran</Label>
+        <Button type="button" size="sm" variant="outline" onClick={handleAdd}>
+          <Plus className="w-4 h-4 mr-1" />
+          Tambah Varian
+        </Button>
+      </div>
+
+      {variants.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Untuk ukuran berbeda dari resep yang sama, misalnya 16/20/24 cm atau regular/large.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {variants.map((variant, index) => (
+            <div key={variant.id} className="p-3 bg-muted/50 rounded-lg space-y-3">
+              <div className="flex gap-3 items-end">
+                <div className="flex-1">
+                  <Label className="text-xs">Nama Varian</Label>
+                  <Input
+                    value={variant.name}
+                    onChange={(e) => update(index, { name: e.target.value })}
+                    placeholder="Contoh: 20 cm"
+                  />
+                </div>
+                <div className="w-24">
+                  <Label className="text-xs">Skala Resep (×)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={variant.scaleFactor}
+                    onChange={(e) => update(index, { scaleFactor: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="w-32">
+                  <Label className="text-xs">+ Kerja (menit/unit)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={variant.extraLaborMinutes}
+                    onChange={(e) => update(index, { extraLaborMinutes: Number(e.target.value) })}
+                  />
+                </div>
+                <Button type="button" size="icon" variant="ghost" onClick={() => handleRemove(index)}>
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+
+              {baseIngredients.length > 0 && (
+                <div>
+                  <Label className="text-xs">Takaran per Batch (kosongkan untuk mengikuti skala)</Label>
+                  <div className="grid grid-cols-2 gap-2 mt-1">
+                    {baseIngredients.map(ingredient => (
+                      <div key={ingredient.id} className="flex items-center gap-2">
+                        <span className="flex-1 text-sm truncate">{getIngredientName(ingredient)}</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={getVariantOverride(variant, ingredient)?.quantity ?? ''}
+                          placeholder={formatNumber(ingredient.quantity * variant.scaleFactor)}
+                          onChange={(e) => handleOverrideChange(index, ingredient, e.target.value)}
+                          className="w-24"
+                        />
+                        <span className="w-10 text-xs text-muted-foreground">{getIngredientUnit(ingredient)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">Kemasan & Bahan Khusus (per unit)</Label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => update(index, {
+                      extraIngredients: [...variant.extraIngredients, { id: uuidv4(), materialId: '', quantity: 1 }],
+                    })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Tambah
+                  </Button>
+                </div>
+                {variant.extraIngredients.map((extra, extraIndex) => (
+                  <div key={extra.id} className="flex gap-2 items-center mt-1">
+                    <Select
+                      value={extra.materialId}
+                      onValueChange={(value) => handleExtraChange(index, extraIndex, { materialId: value })}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Pilih bahan" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {materials.map(m => (
+                          <SelectItem key={m.id} value={m.id}>
+                            {m.name} ({m.unit})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={extra.quantity}
+                      onChange={(e) => handleExtraChange(index, extraIndex, { quantity: Number(e.target.value) })}
+                      className="w-24"
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => update(index, {
+                        extraIngredients: variant.extraIngredients.filter((_, i) => i !== extraIndex),
+                      })}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
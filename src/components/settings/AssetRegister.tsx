@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import { Plus, Edit2, Trash2, Wrench } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { addEquipmentAsset, updateEquipmentAsset, deleteEquipmentAsset } from '@/lib/store';
+import { formatCurrency } from '@/lib/hpp-calculator';
+import { recordSnapshots } from '@/lib/hpp-history';
+import { ALLOCATION_DRIVERS } from '@/lib/overhead-allocation';
+import { DEPRECIATION_METHODS, getBookValue, getMonthlyDepreciation } from '@/lib/depreciation';
+import type { AllocationDriver, DepreciationMethod, EquipmentAsset, Product } from '@/types';
+
+interface AssetRegisterProps {
+  assets: EquipmentAsset[];
+  products: Product[];
+  onChange: () => Promise<void>; // Reload the assets after a save
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = () => ({
+  name: '',
+  purchasePrice: 0,
+  purchaseDate: today(),
+  usefulLifeYears: 5,
+  salvageValue: 0,
+  method: 'straight_line' as DepreciationMethod,
+  allocationDriver: 'flat' as AllocationDriver,
+  productIds: [] as string[],
+});
+
+// Equipment whose monthly depreciation is charged as a fixed overhead.
+// Saved right away, independent of the rest of the settings form.
+export const AssetRegister: React.FC<AssetRegisterProps> = ({ assets, products, onChange }) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingAsset, setEditingAsset] = useState<EquipmentAsset | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const handleOpenDialog = (asset?: EquipmentAsset) => {
+    setEditingAsset(asset ?? null);
+    setFormData(asset
+      ? {
+        name: asset.name,
+        purchasePrice: asset.purchasePrice,
+        purchaseDate: asset.purchaseDate.toISOString().split('T')[0],
+        usefulLifeYears: asset.usefulLifeYears,
+        salvageValue: asset.salvageValue,
+        method: asset.method,
+        allocationDriver: asset.allocationDriver,
+        productIds: [...asset.productIds],
+      }
+      : emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const handleToggleProduct = (productId: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      productIds: checked
+        ? [...formData.productIds, productId]
+        : formData.productIds.filter(id => id !== productId),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast({ title: 'Error', description: 'Nama aset harus diisi', variant: 'destructive' });
+      return;
+    }
+    if (formData.purchasePrice <= 0 || formData.usefulLifeYears <= 0) {
+      toast({ title: 'Error', description: 'Harga beli dan umur ekonomis harus lebih dari 0', variant: 'destructive' });
+      return;
+    }
+    if (formData.salvageValue < 0 || formData.salvageValue >= formData.purchasePrice) {
+      toast({ title: 'Error', description: 'Nilai sisa harus di bawah harga beli', variant: 'destructive' });
+      return;
+    }
+
+    const payload = { ...formData, purchaseDate: new Date(formData.purchaseDate) };
+    const saved = editingAsset
+      ? await updateEquipmentAsset(editingAsset.id, payload)
+      : await addEquipmentAsset(payload);
+    if (!saved) {
+      toast({ title: 'Error', description: 'Gagal menyimpan aset', variant: 'destructive' });
+      return;
+    }
+
+    await onChange();
+    recordSnapshots('settings');
+    toast({ title: 'Berhasil', description: editingAsset ? 'Aset berhasil diperbarui' : 'Aset berhasil ditambahkan' });
+    setIsDialogOpen(false);
+  };
+
+  const handleDelete = async (asset: EquipmentAsset) => {
+    if (!(await deleteEquipmentAsset(asset.id))) {
+      toast({ title: 'Error', description: 'Gagal menghapus aset', variant: 'destructive' });
+      return;
+    }
+    await onChange();
+    recordSnapshots('settings');
+    toast({ title: 'Berhasil', description: 'Aset berhasil dihapus' });
+  };
+
+  const getScopeLabel = (asset: EquipmentAsset) => {
+    if (asset.productIds.length === 0) return 'Semua produk';
+    return products.filter(p => asset.productIds.includes(p.id)).map(p => p.name).join(', ');
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Aset Peralatan</CardTitle>
+            <CardDescription>Penyusutan bulanan otomatis masuk ke overhead per bulan</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => handleOpenDialog()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Tambah
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {assets.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Belum ada aset. Tambahkan oven, mixer, atau freezer agar penyusutannya masuk ke HPP.
+          </div>
+        ) : (
+          <div className="bg-muted/50 rounded-lg overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-3 text-xs font-semibold text-muted-foreground uppercase">Aset</th>
+                  <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Harga Beli</th>
+                  <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Nilai Buku</th>
+                  <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Penyusutan/Bulan</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {assets.map(asset => (
+                  <tr key={asset.id} className="border-b border-border last:border-0">
+                    <td className="p-3">
+                      <p className="font-medium flex items-center gap-2">
+                        <Wrench className="w-4 h-4 text-muted-foreground" />
+                        {asset.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {DEPRECIATION_METHODS.find(m => m.value === asset.method)?.label} · {asset.usefulLifeYears} tahun · {getScopeLabel(asset)}
+                      </p>
+                    </td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(asset.purchasePrice)}</td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(getBookValue(asset))}</td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(getMonthlyDepreciation(asset))}</td>
+                    <td className="p-3">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => handleOpenDialog(asset)}>
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(asset)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingAsset ? 'Edit Aset' : 'Tambah Aset'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="assetName">Nama Aset</Label>
+                <Input
+                  id="assetName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Contoh: Oven Deck 2 Rak"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="assetPrice">Harga Beli (Rp)</Label>
+                  <Input
+                    id="assetPrice"
+                    type="number"
+                    min="0"
+                    value={formData.purchasePrice}
+                    onChange={(e) => setFormData({ ...formData, purchasePrice: Number(e.target.value) })}
+                    className="input-currency"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="assetDate">Tanggal Beli</Label>
+                  <Input
+                    id="assetDate"
+                    type="date"
+                    value={formData.purchaseDate}
+                    onChange={(e) => setFormData({ ...formData, purchaseDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="assetLife">Umur Ekonomis (tahun)</Label>
+                  <Input
+                    id="assetLife"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={formData.usefulLifeYears}
+                    onChange={(e) => setFormData({ ...formData, usefulLifeYears: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="assetSalvage">Nilai Sisa (Rp)</Label>
+                  <Input
+                    id="assetSalvage"
+                    type="number"
+                    min="0"
+                    value={formData.salvageValue}
+                    onChange={(e) => setFormData({ ...formData, salvageValue: Number(e.target.value) })}
+                    className="input-currency"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="text-xs">Metode Penyusutan</Label>
+                <Select
+                  value={formData.method}
+                  onValueChange={(value) => setFormData({ ...formData, method: value as DepreciationMethod })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEPRECIATION_METHODS.map(method => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {DEPRECIATION_METHODS.find(m => m.value === formData.method)?.description}
+                </p>
+              </div>
+              <div>
+                <Label className="text-xs">Dibagi Menurut</Label>
+                <Select
+                  value={formData.allocationDriver}
+                  onValueChange={(value) => setFormData({ ...formData, allocationDriver: value as AllocationDriver })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALLOCATION_DRIVERS.map(driver => (
+                      <SelectItem key={driver.value} value={driver.value}>
+                        {driver.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {products.length > 0 && (
+                <div>
+                  <Label className="text-xs">Dipakai untuk Produk</Label>
+                  <div className="grid grid-cols-2 gap-2 mt-1">
+                    {products.map(product => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={formData.productIds.includes(product.id)}
+                          onCheckedChange={(checked) => handleToggleProduct(product.id, checked === true)}
+                        />
+                        {product.name}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Kosongkan untuk membebankan ke semua produk
+                  </p>
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Batal
+              </Button>
+              <Button type="submit">{editingAsset ? 'Simpan' : 'Tambah'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
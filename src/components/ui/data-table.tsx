@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -14,6 +15,7 @@ interface Column<T> {
   header: string;
   cell?: (row: T) => React.ReactNode;
   className?: string;
+  sortValue?: (row: T) => number | string | null; // Makes the column sortable; nulls sort last
 }
 
 interface DataTableProps<T> {
@@ -33,6 +35,28 @@ export function DataTable<T>({
   className,
   onRowClick,
 }: DataTableProps<T>) {
+  const [sort, setSort] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
+
+  const sortedData = useMemo(() => {
+    const column = sort && columns.find(c => c.key === sort.key);
+    if (!column?.sortValue) return data;
+    const factor = sort.direction === 'asc' ? 1 : -1;
+    return [...data].sort((a, b) => {
+      const va = column.sortValue!(a);
+      const vb = column.sortValue!(b);
+      if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+      return (va < vb ? -1 : va > vb ? 1 : 0) * factor;
+    });
+  }, [data, columns, sort]);
+
+  const handleSort = (key: string) => {
+    setSort(current =>
+      current?.key === key
+        ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: 'asc' }
+    );
+  };
+
   return (
     <div className={cn('bg-card rounded-xl border border-border overflow-hidden', className)}>
       <Table>
@@ -40,7 +64,24 @@ export function DataTable<T>({
           <TableRow className="hover:bg-transparent">
             {columns.map((column) => (
               <TableHead key={column.key} className={cn('table-header', column.className)}>
-                {column.header}
+                {column.sortValue ? (
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column.key)}
+                    className="inline-flex items-center gap-1 hover:text-foreground"
+                  >
+                    {column.header}
+                    {sort?.key !== column.key ? (
+                      <ArrowUpDown className="w-3 h-3" />
+                    ) : sort.direction === 'asc' ? (
+                      <ArrowUp className="w-3 h-3" />
+                    ) : (
+                      <ArrowDown className="w-3 h-3" />
+                    )}
+                  </button>
+                ) : (
+                  column.header
+                )}
               </TableHead>
             ))}
           </TableRow>
@@ -53,7 +94,7 @@ export function DataTable<T>({
               </TableCell>
             </TableRow>
           ) : (
-            data.map((row) => (
+            sortedData.map((row) => (
               <TableRow
                 key={keyExtractor(row)}
                 onClick={() => onRowClick?.(row)}
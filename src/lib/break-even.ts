@@ -0,0 +1,206 @@
+import type { HPPResult, Overhead, Product, Sale } from '@/types';
+import type { ProductActivity } from './overhead-allocation';
+import {
+  ACTIVITY_WINDOW_DAYS,
+  allocateFixedOverhead,
+  getProductActivity,
+  isOverheadInScope,
+} from './overhead-allocation';
+
+export interface ProductBreakEven {
+  productId: string;
+  productName: string;
+  price: number;
+  priceSource: 'sales' | 'suggested'; // Average actual price, or the suggestion when unsold
+  variableCost: number; // HPP without the fixed monthly overheads
+  contributionMargin: number;
+  fixedCosts: number; // Monthly fixed overheads carried by this product
+  breakEvenUnits: number | null; // Null when each unit loses money
+  breakEvenRevenue: number | null;
+  mixShare: number; // Share of units sold in the activity window
+}
+
+export interface BusinessBreakEven {
+  fixedCosts: number;
+  weightedContributionMargin: number;
+  breakEvenUnits: number | null;
+  breakEvenRevenue: number | null;
+  unitsSoldThisMonth: number;
+  revenueThisMonth: number;
+  unitsRemaining: number | null; // Until break-even this calendar month
+  products: ProductBreakEven[];
+}
+
+const getRecentSales = (sales: Sale[], windowDays: number = ACTIVITY_WINDOW_DAYS): Sale[] => {
+  const since = new Date();
+  since.setDate(since.getDate() - windowDays);
+  return sales.filter(s => new Date(s.soldAt) >= since);
+};
+
+export interface SoldMixLine {
+  result: HPPResult; // The base recipe or one of its variants
+  units: number;
+  revenue: number;
+}
+
+// What a product actually sold, each variant against its own HPP: recent
+// sales first, then all time. Empty when the product never sold.
+export const getSoldMix = (hpp: HPPResult, sales: Sale[]): SoldMixLine[] => {
+  const variants = hpp.variants ?? [];
+  for (const pool of [getRecentSales(sales), sales]) {
+    const productSales = pool.filter(s => s.productId === hpp.productId);
+    const mix = [hpp, ...variants]
+      .map(result => {
+        // Sales of a deleted variant, or without one, count as the base recipe
+        const resultSales = productSales.filter(s => result.variantId
+          ? s.variantId === result.variantId
+          : !variants.some(v => v.variantId === s.variantId));
+        return {
+          result,
+          units: resultSales.reduce((sum, s) => sum + s.quantity, 0),
+          revenue: resultSales.reduce((sum, s) => sum + s.quantity * s.unitPrice, 0),
+        };
+      })
+      .filter(line => line.units > 0);
+    if (mix.length > 0) return mix;
+  }
+  return [];
+};
+
+// Unit-weighted average of a per-unit value over the sold mix
+export const weighSoldMix = (mix: SoldMixLine[], value: (result: HPPResult) => number): number => {
+  const units = mix.reduce((sum, line) => sum + line.units, 0);
+  return units > 0 ? mix.reduce((sum, line) => sum + line.units * value(line.result), 0) / units : 0;
+};
+
+// Average price actually charged, null when the product never sold
+export const getAverageSellingPrice = (mix: SoldMixLine[]): number | null => {
+  const units = mix.reduce((sum, line) => sum + line.units, 0);
+  return units > 0 ? mix.reduce((sum, line) => sum + line.revenue, 0) / units : null;
+};
+
+// HPP per unit without the fixed monthly overheads
+export const getVariableCost = (hpp: HPPResult): number =>
+  hpp.breakdown.hppPerUnit - hpp.breakdown.overheadDetails
+    .filter(o => o.allocationType === 'fixed')
+    .reduce((sum, o) => sum + o.amount, 0);
+
+// Monthly amount of a fixed overhead carried by one product: its driver share
+// when the scope has activity, otherwise an even split across the scope
+const getFixedCostShare = (
+  overhead: Overhead,
+  product: Product,
+  products: Product[],
+  activity: ProductActivity[]
+): number => {
+  const own = activity.find(a => a.productId === product.id);
+  const allocated = allocateFixedOverhead(
+    overhead.allocationDriver === 'flat' ? { ...overhead, allocationDriver: 'units' } : overhead,
+    product,
+    products,
+    activity
+  );
+  if (allocated !== null) return allocated * (own?.units ?? 0);
+
+  const scoped = products.filter(p => isOverheadInScope(overhead, p));
+  return scoped.length > 0 ? overhead.amount / scoped.length : 0;
+};
+
+export const getProductBreakEven = (
+  product: Product,
+  hpp: HPPResult,
+  overheads: Overhead[],
+  products: Product[],
+  sales: Sale[]
+): ProductBreakEven => {
+  const activity = getProductActivity(products, sales);
+  const totalUnits = activity.reduce((sum, a) => sum + a.units, 0);
+  const ownUnits = activity.find(a => a.productId === product.id)?.units ?? 0;
+
+  // Variants are costed at their own HPP, weighted by how many of each sold
+  const mix = getSoldMix(hpp, sales);
+  const variableCost = mix.length > 0 ? weighSoldMix(mix, getVariableCost) : getVariableCost(hpp);
+
+  const averagePrice = getAverageSellingPrice(mix);
+  const price = averagePrice ?? hpp.suggestedPrice;
+  const contributionMargin = price - variableCost;
+
+  const fixedCosts = overheads
+    .filter(o => o.allocationType === 'fixed' && isOverheadInScope(o, product))
+    .reduce((sum, o) => sum + getFixedCostShare(o, product, products, activity), 0);
+
+  const breakEvenUnits = contributionMargin > 0 ? fixedCosts / contributionMargin : null;
+
+  return {
+    productId: product.id,
+    productName: product.name,
+    price,
+    priceSource: averagePrice !== null ? 'sales' : 'suggested',
+    variableCost,
+    contributionMargin,
+    fixedCosts,
+    breakEvenUnits,
+    breakEvenRevenue: breakEvenUnits !== null ? breakEvenUnits * price : null,
+    mixShare: totalUnits > 0 ? ownUnits / totalUnits : 1 / products.length,
+  };
+};
+
+/**
+ * Break-even for the whole business at the current sales mix: all fixed
+ * overheads divided by the mix-weighted contribution margin per unit.
+ */
+export const getBusinessBreakEven = (
+  results: { product: Product; hpp: HPPResult }[],
+  overheads: Overhead[],
+  products: Product[],
+  sales: Sale[]
+): BusinessBreakEven => {
+  const productBreakEvens = results.map(({ product, hpp }) =>
+    getProductBreakEven(product, hpp, overheads, products, sales)
+  );
+
+  // Normalise the mix over the products that could be costed
+  const mixTotal = productBreakEvens.reduce((sum, p) => sum + p.mixShare, 0);
+  const shareOf = (p: ProductBreakEven) => (mixTotal > 0 ? p.mixShare / mixTotal : 0);
+
+  const fixedCosts = overheads
+    .filter(o => o.allocationType === 'fixed')
+    .reduce((sum, o) => sum + o.amount, 0);
+  const weightedContributionMargin = productBreakEvens.reduce((sum, p) => sum + shareOf(p) * p.contributionMargin, 0);
+  const weightedPrice = productBreakEvens.reduce((sum, p) => sum + shareOf(p) * p.price, 0);
+
+  const breakEvenUnits = weightedContributionMargin > 0 ? fixedCosts / weightedContributionMargin : null;
+
+  const monthStart = new Date();
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+  const salesThisMonth = sales.filter(s => new Date(s.soldAt) >= monthStart);
+  const unitsSoldThisMonth = salesThisMonth.reduce((sum, s) => sum + s.quantity, 0);
+
+  return {
+    fixedCosts,
+    weightedContributionMargin,
+    breakEvenUnits,
+    breakEvenRevenue: breakEvenUnits !== null ? breakEvenUnits * weightedPrice : null,
+    unitsSoldThisMonth,
+    revenueThisMonth: salesThisMonth.reduce((sum, s) => sum + s.quantity * s.unitPrice, 0),
+    unitsRemaining: breakEvenUnits !== null ? Math.max(0, Math.ceil(breakEvenUnits) - unitsSoldThisMonth) : null,
+    products: productBreakEvens,
+  };
+};
+
+// Revenue and total cost lines from zero to twice the break-even volume
+export const getBreakEvenChartData = (
+  breakEven: Pick<ProductBreakEven, 'price' | 'variableCost' | 'fixedCosts' | 'breakEvenUnits'>,
+  points: number = 20
+): { units: number; revenue: number; totalCost: number }[] => {
+  const maxUnits = Math.max(10, Math.ceil((breakEven.breakEvenUnits ?? 100) * 2));
+  return Array.from({ length: points + 1 }, (_, i) => {
+    const units = Math.round((maxUnits * i) / points);
+    return {
+      units,
+      revenue: units * breakEven.price,
+      totalCost: breakEven.fixedCosts + units * breakEven.variableCost,
+    };
+  });
+};
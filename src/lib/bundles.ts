@@ -0,0 +1,136 @@
+import type { Bundle, BundleSale, Sale } from '@/types';
+import { computeHPP, resolveMaterialPrice, type HPPData } from './hpp-calculator';
+import { getPriceSuggestions, roundPrice } from './pricing';
+import { validateProduct } from './hpp-validation';
+import { resolveQuantity } from './units';
+
+export interface BundleComponentCost {
+  productId: string;
+  variantId?: string;
+  name: string;
+  quantity: number;
+  hppPerUnit: number;
+  suggestedPrice: number; // Of the product on its own
+  total: number; // HPP of all units in the bundle
+}
+
+export interface BundlePackagingCost {
+  materialId: string;
+  name: string;
+  quantity: number; // In the material's unit
+  unit: string;
+  pricePerUnit: number;
+  total: number;
+}
+
+export interface BundleHPPResult {
+  bundleId: string;
+  bundleName: string;
+  components: BundleComponentCost[];
+  packaging: BundlePackagingCost[];
+  packagingCost: number;
+  hpp: number; // Components plus packaging, per bundle
+  normalPrice: number; // The components bought separately
+  discountPercent: number;
+  suggestedPrice: number; // Normal price less the discount, rounded
+  profit: number;
+  marginPercent: number;
+  minimumPrice: number; // What the pricing strategy asks for the bundle HPP
+  maxDiscountPercent: number; // Largest discount that still meets the minimum price
+  belowMinimum: boolean;
+}
+
+/**
+ * HPP of a bundle from each component's own HPP, plus the bundle packaging.
+ * The suggested price is the components' suggested prices less the bundle
+ * discount; it is flagged when that drops below what the pricing strategy
+ * asks for the bundle's HPP. Throws when a component cannot be costed.
+ */
+export const computeBundleHPP = (bundle: Bundle, data: HPPData): BundleHPPResult => {
+  const costedItems = bundle.items.map(item => {
+    const product = data.products.find(p => p.id === item.productId);
+    if (!product) throw new Error('Produk dalam paket tidak ditemukan');
+
+    const errors = validateProduct(product, data).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) throw new Error(`${product.name}: ${errors[0].message}`);
+
+    const result = computeHPP(product, data);
+    const variantResult = item.variantId
+      ? result.variants?.find(v => v.variantId === item.variantId)
+      : undefined;
+    if (item.variantId && !variantResult) throw new Error(`Varian ${product.name} dalam paket tidak ditemukan`);
+    return { item, costed: variantResult ?? result };
+  });
+
+  const components: BundleComponentCost[] = costedItems.map(({ item, costed }) => ({
+    productId: item.productId,
+    variantId: item.variantId,
+    name: costed.productName,
+    quantity: item.quantity,
+    hppPerUnit: costed.breakdown.hppPerUnit,
+    suggestedPrice: costed.suggestedPrice,
+    total: item.quantity * costed.breakdown.hppPerUnit,
+  }));
+
+  const packaging = bundle.packaging.map(ingredient => {
+    const material = data.materials.find(m => m.id === ingredient.materialId);
+    if (!material) throw new Error('Kemasan paket memakai bahan yang sudah dihapus');
+    const recipeUnit = ingredient.unit ?? material.unit;
+    const quantity = resolveQuantity(ingredient.quantity, recipeUnit, material);
+    if (quantity === null) throw new Error(`${recipeUnit} tidak bisa dikonversi ke ${material.unit} untuk ${material.name}`);
+    const pricePerUnit = resolveMaterialPrice(material, data, {});
+    return {
+      materialId: material.id,
+      name: material.name,
+      quantity,
+      unit: material.unit,
+      pricePerUnit,
+      total: quantity * pricePerUnit,
+    };
+  });
+
+  const packagingCost = packaging.reduce((sum, p) => sum + p.total, 0);
+  const hpp = components.reduce((sum, c) => sum + c.total, 0) + packagingCost;
+  const materialsTotal = costedItems
+    .reduce((sum, { item, costed }) => sum + item.quantity * costed.breakdown.materialsTotal, 0) + packagingCost;
+  const normalPrice = components.reduce((sum, c) => sum + c.quantity * c.suggestedPrice, 0);
+
+  const suggestedPrice = roundPrice(normalPrice * (1 - bundle.discountPercent / 100), data.pricing.rounding);
+  const minimumPrice = getPriceSuggestions(hpp, materialsTotal, data.pricing)
+    .find(s => s.strategy === data.pricing.strategy)!.price;
+  const profit = suggestedPrice - hpp;
+
+  return {
+    bundleId: bundle.id,
+    bundleName: bundle.name,
+    components,
+    packaging,
+    packagingCost,
+    hpp,
+    normalPrice,
+    discountPercent: bundle.discountPercent,
+    suggestedPrice,
+    profit,
+    marginPercent: suggestedPrice > 0 ? (profit / suggestedPrice) * 100 : 0,
+    minimumPrice,
+    maxDiscountPercent: normalPrice > 0 ? Math.max(0, (1 - minimumPrice / normalPrice) * 100) : 0,
+    belowMinimum: suggestedPrice < minimumPrice,
+  };
+};
+
+// Bundle sales as sales of their components, so forecasts see the units that
+// actually left the kitchen. Only quantities carry over; the revenue stays
+// with the bundle.
+export const expandBundleSales = (bundleSales: BundleSale[], bundles: Bundle[]): Sale[] =>
+  bundleSales.flatMap(sale => {
+    const bundle = bundles.find(b => b.id === sale.bundleId);
+    if (!bundle) return [];
+    return bundle.items.map(item => ({
+      id: `${sale.id}:${item.id}`,
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: sale.quantity * item.quantity,
+      unitPrice: 0,
+      soldAt: sale.soldAt,
+    }));
+  });
@@ -0,0 +1,64 @@
+import type { ChannelPrice, PriceRounding, SalesChannel } from '@/types';
+import { roundPrice } from './pricing';
+
+// What the seller keeps from one unit sold at `price` on this channel
+const netRevenueAt = (price: number, channel: SalesChannel) => {
+  // PPN on top of the listed price is paid by the buyer and passed on as-is
+  const tax = channel.taxIncluded
+    ? price - price / (1 + channel.taxPercent / 100)
+    : price * (channel.taxPercent / 100);
+  const commission = price * (channel.commissionPercent / 100);
+  return {
+    tax,
+    commission,
+    netRevenue: price - (channel.taxIncluded ? tax : 0) - commission - channel.fixedFee,
+  };
+};
+
+/**
+ * Listed price per channel that leaves `targetNetRevenue` (the shop price)
+ * after commission, fixed fee and PPN, so each channel keeps the same profit
+ * per unit. Solves net = P / (1 + tax) - commission * P - fee for P (the
+ * PPN term drops out when PPN is added on top of the listed price).
+ */
+export const getChannelPrices = (
+  targetNetRevenue: number,
+  hppPerUnit: number,
+  channels: SalesChannel[],
+  rounding: PriceRounding
+): ChannelPrice[] => {
+  return channels.map(channel => {
+    const keptShare = (channel.taxIncluded ? 1 / (1 + channel.taxPercent / 100) : 1) -
+      channel.commissionPercent / 100;
+
+    if (keptShare <= 0) {
+      return {
+        channelId: channel.id,
+        channelName: channel.name,
+        price: null,
+        commission: 0,
+        fixedFee: channel.fixedFee,
+        tax: 0,
+        netRevenue: 0,
+        profit: 0,
+        marginPercent: 0,
+      };
+    }
+
+    const price = roundPrice((targetNetRevenue + channel.fixedFee) / keptShare, rounding);
+    const { tax, commission, netRevenue } = netRevenueAt(price, channel);
+    const profit = netRevenue - hppPerUnit;
+
+    return {
+      channelId: channel.id,
+      channelName: channel.name,
+      price,
+      commission,
+      fixedFee: channel.fixedFee,
+      tax,
+      netRevenue,
+      profit,
+      marginPercent: netRevenue > 0 ? (profit / netRevenue) * 100 : 0,
+    };
+  });
+};
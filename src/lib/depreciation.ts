@@ -0,0 +1,52 @@
+import type { DepreciationMethod, EquipmentAsset, Overhead } from '@/types';
+
+export const DEPRECIATION_METHODS: { value: DepreciationMethod; label: string; description: string }[] = [
+  { value: 'straight_line', label: 'Garis Lurus', description: 'Penyusutan sama besar setiap bulan' },
+  { value: 'declining_balance', label: 'Saldo Menurun Ganda', description: 'Penyusutan besar di awal, mengecil setiap bulan' },
+];
+
+// Whole months from the purchase month to the month of `asOf`
+const monthsSincePurchase = (asset: EquipmentAsset, asOf: Date): number =>
+  (asOf.getFullYear() - asset.purchaseDate.getFullYear()) * 12 +
+  (asOf.getMonth() - asset.purchaseDate.getMonth());
+
+const lifeMonths = (asset: EquipmentAsset): number => Math.round(asset.usefulLifeYears * 12);
+
+// Book value after `months` of depreciation, never below the salvage value
+const bookValueAfter = (asset: EquipmentAsset, months: number): number => {
+  const life = lifeMonths(asset);
+  const depreciable = Math.max(0, asset.purchasePrice - asset.salvageValue);
+  if (months <= 0 || life <= 0) return asset.purchasePrice;
+  if (months >= life) return Math.min(asset.purchasePrice, asset.salvageValue);
+
+  if (asset.method === 'declining_balance') {
+    // Double the straight-line rate, on what is left of the price
+    const monthlyRate = Math.min(1, 2 / life);
+    return Math.max(asset.salvageValue, asset.purchasePrice * Math.pow(1 - monthlyRate, months));
+  }
+  return asset.purchasePrice - (depreciable / life) * months;
+};
+
+export const getBookValue = (asset: EquipmentAsset, asOf: Date = new Date()): number =>
+  bookValueAfter(asset, monthsSincePurchase(asset, asOf));
+
+// Depreciation charged in the month of `asOf`; zero before the purchase month
+// and after the useful life. Declining balance writes off what is left above
+// the salvage value in the last month.
+export const getMonthlyDepreciation = (asset: EquipmentAsset, asOf: Date = new Date()): number => {
+  const month = monthsSincePurchase(asset, asOf);
+  if (month < 0 || month >= lifeMonths(asset)) return 0;
+  return Math.max(0, bookValueAfter(asset, month) - bookValueAfter(asset, month + 1));
+};
+
+// The asset as a fixed monthly overhead, charged to the products that use it
+export const toDepreciationOverhead = (asset: EquipmentAsset, asOf: Date = new Date()): Overhead => ({
+  id: `asset:${asset.id}`,
+  name: `Penyusutan ${asset.name}`,
+  amount: getMonthlyDepreciation(asset, asOf),
+  allocationType: 'fixed',
+  allocationDriver: asset.allocationDriver,
+  scope: asset.productIds.length > 0 ? 'products' : 'all',
+  productIds: asset.productIds,
+  assetId: asset.id,
+});
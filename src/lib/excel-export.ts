@@ -1,6 +1,7 @@
 import * as XLSX from 'xlsx';
-import type { HPPResult, Sale, ForecastResult } from '@/types';
+import type { HPPResult, HPPTraceStep, Sale, ForecastResult, MaterialDetail } from '@/types';
 import { formatCurrency, formatNumber } from './hpp-calculator';
+import { PRICING_STRATEGIES } from './pricing';
 
 interface ExportData {
   hpp: HPPResult;
@@ -9,6 +10,46 @@ interface ExportData {
   period: { start: Date; end: Date };
 }
 
+// Sub-recipe ingredients follow their parent row, indented by depth
+const flattenMaterialDetails = (details: MaterialDetail[], depth = 0): (string | number)[][] => {
+  return details.flatMap(m => [
+    [
+      `${'    '.repeat(depth)}${depth > 0 ? '└ ' : ''}${m.name}`,
+      m.netQuantity,
+      m.quantity,
+      m.unit,
+      m.pricePerUnit,
+      m.total,
+    ],
+    ...flattenMaterialDetails(m.children ?? [], depth + 1),
+    ...(m.processCost
+      ? [[`${'    '.repeat(depth + 1)}└ Tenaga kerja & utilitas sub-resep`, '', '', '', '', m.processCost]]
+      : []),
+  ]);
+};
+
+const TRACE_SECTIONS: Record<HPPTraceStep['section'], string> = {
+  material: 'Bahan',
+  labor: 'Tenaga Kerja',
+  utility: 'Utilitas',
+  overhead: 'Overhead',
+  total: 'Total',
+  price: 'Harga Jual',
+};
+
+// Trace steps with sub-recipe ingredients indented under their parent
+const flattenTrace = (steps: HPPTraceStep[], depth = 0): (string | number)[][] => {
+  return steps.flatMap(step => [
+    [
+      TRACE_SECTIONS[step.section],
+      `${'    '.repeat(depth)}${depth > 0 ? '└ ' : ''}${step.label}`,
+      step.formula,
+      step.value,
+    ],
+    ...flattenTrace(step.children ?? [], depth + 1),
+  ]);
+};
+
 export const exportToExcel = (data: ExportData): void => {
   const workbook = XLSX.utils.book_new();
   
@@ -22,11 +63,31 @@ export const exportToExcel = (data: ExportData): void => {
     ['RINGKASAN BIAYA'],
     ['Total Biaya Bahan', data.hpp.breakdown.materialsTotal],
     ['Biaya Tenaga Kerja', data.hpp.breakdown.laborCost],
+    ['Biaya Utilitas', data.hpp.breakdown.utilityCost],
     ['Biaya Overhead', data.hpp.breakdown.overheadCost],
     [''],
     ['HPP per Unit', data.hpp.breakdown.hppPerUnit],
     ['Harga Jual Rekomendasi', data.hpp.suggestedPrice],
-    ['Target Margin', `${data.hpp.marginPercent}%`],
+    ['Strategi Harga', PRICING_STRATEGIES.find(p => p.value === data.hpp.pricingStrategy)?.label ?? '-'],
+    [''],
+    ['PERBANDINGAN STRATEGI HARGA'],
+    ...data.hpp.priceSuggestions.map(p => [
+      PRICING_STRATEGIES.find(s => s.value === p.strategy)?.label ?? p.strategy,
+      p.price,
+      `margin ${formatNumber(p.marginPercent, 1)}%`,
+    ]),
+    [''],
+    ['HARGA PER KANAL PENJUALAN'],
+    ...data.hpp.channelPrices.map(c => [
+      c.channelName,
+      c.price ?? '-',
+      `diterima ${formatCurrency(c.netRevenue)}`,
+    ]),
+    ...(data.hpp.variants ? [
+      [''],
+      ['HPP PER VARIAN', 'HPP/Unit', 'Harga Rekomendasi'],
+      ...data.hpp.variants.map(v => [v.productName, v.breakdown.hppPerUnit, v.suggestedPrice]),
+    ] : []),
   ];
   
   const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
@@ -34,19 +95,13 @@ export const exportToExcel = (data: ExportData): void => {
   XLSX.utils.book_append_sheet(workbook, summarySheet, 'Ringkasan');
   
   // Sheet 2: Material Details
-  const materialHeaders = ['Nama Bahan', 'Jumlah per Unit', 'Satuan', 'Harga per Satuan', 'Total Biaya'];
-  const materialRows = data.hpp.breakdown.materialDetails.map(m => [
-    m.name,
-    m.quantity,
-    m.unit,
-    m.pricePerUnit,
-    m.total,
-  ]);
+  const materialHeaders = ['Nama Bahan', 'Jumlah Bersih per Unit', 'Jumlah Kotor per Unit', 'Satuan', 'Harga per Satuan', 'Total Biaya'];
+  const materialRows = flattenMaterialDetails(data.hpp.breakdown.materialDetails);
   
   const materialData = [materialHeaders, ...materialRows];
   const materialSheet = XLSX.utils.aoa_to_sheet(materialData);
   materialSheet['!cols'] = [
-    { wch: 20 }, { wch: 15 }, { wch: 10 }, { wch: 15 }, { wch: 15 }
+    { wch: 20 }, { wch: 20 }, { wch: 20 }, { wch: 10 }, { wch: 15 }, { wch: 15 }
   ];
   XLSX.utils.book_append_sheet(workbook, materialSheet, 'Detail Bahan');
   
@@ -55,14 +110,39 @@ export const exportToExcel = (data: ExportData): void => {
     ['BIAYA TENAGA KERJA & OVERHEAD'],
     [''],
     ['Biaya Tenaga Kerja', data.hpp.breakdown.laborCost],
+    ...data.hpp.breakdown.laborDetails.map(l => [
+      `    ${l.name} (${l.minutes} menit/${l.basis === 'batch' ? 'batch' : 'unit'} @ ${formatCurrency(l.wagePerHour)}/jam)`,
+      l.total,
+    ]),
+    ['Biaya Utilitas', data.hpp.breakdown.utilityCost],
+    ...data.hpp.breakdown.utilityDetails.map(u => [
+      `    ${u.name} (${u.minutes} menit/batch @ ${formatCurrency(u.costPerMinute)}/menit)`,
+      u.total,
+    ]),
     ['Biaya Overhead', data.hpp.breakdown.overheadCost],
+    ...data.hpp.breakdown.overheadDetails.map(o => ['    ' + o.name, o.amount]),
     [''],
-    ['Total Biaya Tidak Langsung', data.hpp.breakdown.laborCost + data.hpp.breakdown.overheadCost],
+    ['Total Biaya Tidak Langsung', data.hpp.breakdown.laborCost + data.hpp.breakdown.utilityCost + data.hpp.breakdown.overheadCost],
   ];
   
   const overheadSheet = XLSX.utils.aoa_to_sheet(overheadData);
+  overheadSheet['!cols'] = [{ wch: 45 }, { wch: 20 }];
   XLSX.utils.book_append_sheet(workbook, overheadSheet, 'Tenaga Kerja & Overhead');
   
+  // Explanation of every value, when the HPP was calculated with a trace
+  if (data.hpp.trace) {
+    const traceData = [
+      ['PENJELASAN PERHITUNGAN HPP'],
+      ['Semua nilai per unit produk; rincian sub-resep per satuan sub-resep'],
+      [''],
+      ['Bagian', 'Komponen', 'Rumus', 'Nilai'],
+      ...flattenTrace(data.hpp.trace),
+    ];
+    const traceSheet = XLSX.utils.aoa_to_sheet(traceData);
+    traceSheet['!cols'] = [{ wch: 14 }, { wch: 25 }, { wch: 60 }, { wch: 15 }];
+    XLSX.utils.book_append_sheet(workbook, traceSheet, 'Penjelasan');
+  }
+
   // Sheet 4: Sales History
   if (data.sales.length > 0) {
     const salesHeaders = ['Tanggal', 'Jumlah', 'Harga per Unit', 'Total'];
@@ -1,17 +1,49 @@
-import type { Sale, Product, ForecastResult, Material } from '@/types';
-import { getSales, getMaterials, getProducts } from './store';
+import type { Sale, Product, ForecastResult, Material, Bundle, BundleSale } from '@/types';
+import { getSales, getMaterials, getProducts, getBundles, getBundleSales } from './store';
+import { expandBundleSales } from './bundles';
+import { resolveQuantity } from './units';
+
+// Everything a forecast reads, loaded once so many products can be forecast
+export interface ForecastData {
+  products: Product[];
+  materials: Material[];
+  sales: Sale[];
+  bundles: Bundle[];
+  bundleSales: BundleSale[];
+}
+
+export const loadForecastData = async (): Promise<ForecastData> => {
+  const [products, materials, sales, bundles, bundleSales] = await Promise.all([
+    getProducts(),
+    getMaterials(),
+    getSales(),
+    getBundles(),
+    getBundleSales(),
+  ]);
+  return { products, materials, sales, bundles, bundleSales };
+};
 
 export const calculateForecast = async (
   productId: string,
   horizonDays: number = 30,
   safetyDays: number = 7
 ): Promise<ForecastResult | null> => {
-  const products = await getProducts();
-  const product = products.find(p => p.id === productId);
+  return computeForecast(productId, await loadForecastData(), horizonDays, safetyDays);
+};
+
+// Same as calculateForecast, without fetching anything
+export const computeForecast = (
+  productId: string,
+  data: ForecastData,
+  horizonDays: number = 30,
+  safetyDays: number = 7
+): ForecastResult | null => {
+  const product = data.products.find(p => p.id === productId);
   if (!product) return null;
   
-  const allSales = await getSales();
-  const sales = allSales.filter(s => s.productId === productId);
+  // Units sold inside bundles count toward the product as well
+  const fromBundles = expandBundleSales(data.bundleSales, data.bundles).filter(s => s.productId === productId);
+  const sales = [...data.sales.filter(s => s.productId === productId), ...fromBundles];
   
   // Get last 90 days of sales
   const now = new Date();
@@ -23,6 +55,10 @@ export const calculateForecast = async (
     return saleDate >= ninetyDaysAgo && saleDate <= now;
   });
   
+  const bundleUnits = fromBundles
+    .filter(s => s.soldAt >= ninetyDaysAgo && s.soldAt <= now)
+    .reduce((sum, s) => sum + s.quantity, 0);
+
   // Aggregate sales by day
   const dailySales = new Map<string, number>();
   recentSales.forEach(sale => {
@@ -80,11 +116,12 @@ export const calculateForecast = async (
   const totalForecast = dailyForecast.reduce((sum, d) => sum + d.quantity, 0);
   
   // Calculate current stock (simplified - sum of material stock)
-  const materials = await getMaterials();
   const currentStock = product.ingredients.reduce((total, ing) => {
-    const material = materials.find(m => m.id === ing.materialId);
+    const material = data.materials.find(m => m.id === ing.materialId);
     if (!material) return total;
-    return total + Math.floor(material.stockAmount / ing.quantity) * product.yieldPerBatch;
+    const quantity = resolveQuantity(ing.quantity, ing.unit ?? material.unit, material);
+    if (!quantity) return total;
+    return total + Math.floor(material.stockAmount / quantity) * product.yieldPerBatch;
   }, 0) || 100; // Default if no ingredients
   
   // Calculate recommended restock
@@ -100,6 +137,7 @@ export const calculateForecast = async (
     currentStock,
     recommendedRestock,
     averageDailySales: ma7,
+    bundleUnits,
     trend,
     trendPercent: Math.round(trendPercent * 10) / 10,
   };
@@ -0,0 +1,16 @@
+// Rupiah amounts are whole by default; unit prices in formulas keep their cents
+export const formatCurrency = (amount: number, decimals: number = 0): string => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: decimals,
+  }).format(amount);
+};
+
+export const formatNumber = (num: number, decimals: number = 2): string => {
+  return new Intl.NumberFormat('id-ID', {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: decimals,
+  }).format(num);
+};
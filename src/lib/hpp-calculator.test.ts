@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Material, Product } from '@/types';
+import { computeHPP, type HPPData } from './hpp-calculator';
+import { DEFAULT_PRICING_SETTINGS } from './pricing';
+
+// The calculation is pure; keep the Supabase client out of the test run
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const flour: Material = {
+  id: 'flour',
+  name: 'Tepung',
+  unit: 'g',
+  pricePerUnit: 12,
+  stockAmount: 0,
+  conversions: [],
+  updatedAt: new Date(),
+};
+
+const bread = (ingredient: Partial<Product['ingredients'][number]>): Product => ({
+  id: 'bread',
+  name: 'Roti',
+  description: '',
+  category: '',
+  yieldPerBatch: 10,
+  ingredients: [{ id: 'i1', materialId: 'flour', quantity: 500, ...ingredient }],
+  laborMinutes: 0,
+  batchMinutes: 0,
+  laborSteps: [],
+  machineUsages: [],
+  variants: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const data = (product: Product): HPPData => ({
+  materials: [flour],
+  priceHistory: [],
+  lots: [],
+  costingMethod: 'latest',
+  overheads: [],
+  laborRates: [],
+  machines: [],
+  products: [product],
+  sales: [],
+  pricing: DEFAULT_PRICING_SETTINGS,
+  channels: [],
+});
+
+describe('computeHPP', () => {
+  it('costs a recipe line in a convertible unit', () => {
+    const product = bread({ quantity: 0.5, unit: 'kg' });
+    expect(computeHPP(product, data(product)).breakdown.materialsTotal).toBeCloseTo(600);
+  });
+
+  it('throws on a recipe line whose unit cannot be converted', () => {
+    const product = bread({ unit: 'ml' });
+    expect(() => computeHPP(product, data(product))).toThrow('ml tidak bisa dikonversi ke g untuk Tepung');
+  });
+});
@@ -1,35 +1,287 @@
-import type { Product, Material, Overhead, LaborRate, HPPResult, Unit } from '@/types';
-import { getMaterials, getOverheads, getLaborRates } from './store';
+import type {
+  Product,
+  Material,
+  Overhead,
+  OverheadDetail,
+  LaborRate,
+  LaborStep,
+  LaborDetail,
+  Machine,
+  UtilityDetail,
+  HPPResult,
+  HPPTraceStep,
+  HPPScenario,
+  MaterialDetail,
+  MaterialPriceEntry,
+  MaterialLot,
+  CostingMethod,
+  PricingSettings,
+  Sale,
+  SalesChannel,
+  Unit,
+} from '@/types';
+import { getMaterials, getOverheads, getLaborRates, getProducts, getSales, getPricingSettings, getSalesChannels, getMaterialPrices, getMaterialLots, getCostingMethod, getMachines } from './store';
+import { convertQuantity, isKitchenUnit, resolveQuantity } from './units';
+import { ALLOCATION_DRIVERS, allocateFixedOverhead, getProductActivity, isOverheadInScope } from './overhead-allocation';
+import { getEffectiveYield } from './production';
+import { describePriceFormula, getPriceSuggestions } from './pricing';
+import { getChannelPrices } from './channel-pricing';
+import { formatCurrency, formatNumber } from './format';
+import { getInventoryUnitCost } from './inventory-costing';
+import { applyVariant } from './variants';
+import { describeMachineRate, getMachineCostPerMinute } from './utilities';
 
-interface HPPOverrides {
+export { formatCurrency, formatNumber };
+
+export interface HPPOverrides {
   materialPrices?: { materialId: string; pricePerUnit: number }[];
   laborMinutes?: number;
+  batchMinutes?: number;
   laborRateId?: string;
   marginPercent?: number;
+  pricing?: PricingSettings;
+  channels?: SalesChannel[];
   monthlyProduction?: number;
+  asOf?: Date; // Cost materials at the prices in effect on this date
 }
 
-const DEFAULT_MARGIN = 30; // 30%
-const DEFAULT_MONTHLY_PRODUCTION = 500; // units
+// Layers a saved scenario over the current overrides; scenario values win
+export const applyScenario = (overrides: HPPOverrides, scenario: HPPScenario): HPPOverrides => {
+  const scenarioMaterialIds = scenario.materialPrices.map(p => p.materialId);
+  return {
+    ...overrides,
+    materialPrices: [
+      ...(overrides.materialPrices ?? []).filter(p => !scenarioMaterialIds.includes(p.materialId)),
+      ...scenario.materialPrices,
+    ],
+    laborMinutes: scenario.laborMinutes ?? overrides.laborMinutes,
+    batchMinutes: scenario.batchMinutes ?? overrides.batchMinutes,
+    laborRateId: scenario.laborRateId ?? overrides.laborRateId,
+    marginPercent: scenario.marginPercent ?? overrides.marginPercent,
+    monthlyProduction: scenario.monthlyProduction ?? overrides.monthlyProduction,
+  };
+};
 
-export const calculateHPP = async (
+export interface HPPOptions {
+  trace?: boolean; // Return the formula behind every value in `trace`
+}
+
+export const DEFAULT_MONTHLY_PRODUCTION = 500; // units
+export const DEFAULT_WAGE_PER_HOUR = 20000;
+
+// Follows sub-recipe links from a product and returns the first cycle found
+// as a list of product ids (first and last are the same), or null.
+export const findRecipeCycle = (productId: string, products: Product[]): string[] | null => {
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (path.includes(id)) return [...path.slice(path.indexOf(id)), id];
+    const product = products.find(p => p.id === id);
+    if (!product) return null;
+    for (const ingredient of product.ingredients) {
+      if (!ingredient.subProductId) continue;
+      const cycle = visit(ingredient.subProductId, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  return visit(productId, []);
+};
+
+// Quantity to buy so that `netQuantity` is left after waste
+const grossUp = (netQuantity: number, wastePercent = 0): number => {
+  return wastePercent > 0 && wastePercent < 100 ? netQuantity / (1 - wastePercent / 100) : netQuantity;
+};
+
+const scaleDetail = (detail: MaterialDetail, factor: number): MaterialDetail => ({
+  ...detail,
+  netQuantity: detail.netQuantity * factor,
+  quantity: detail.quantity * factor,
+  total: detail.total * factor,
+  children: detail.children?.map(c => scaleDetail(c, factor)),
+  processCost: detail.processCost !== undefined ? detail.processCost * factor : undefined,
+  laborMinutes: detail.laborMinutes !== undefined ? detail.laborMinutes * factor : undefined,
+});
+
+interface CostingContext {
+  data: HPPData;
+  overrides: HPPOverrides;
+}
+
+// Price a material is costed at: an override wins, then with `asOf` the entry
+// in effect on that date (the earliest entry if the date predates them all),
+// otherwise the unit cost of the stock under the chosen costing method
+export const resolveMaterialPrice = (
+  material: Material,
+  data: Pick<HPPData, 'priceHistory' | 'lots' | 'costingMethod'>,
+  overrides: HPPOverrides
+): number => {
+  const priceOverride = overrides.materialPrices?.find(p => p.materialId === material.id);
+  if (priceOverride) return priceOverride.pricePerUnit;
+  if (!overrides.asOf) return getInventoryUnitCost(material, data.lots, data.costingMethod);
+
+  const asOf = overrides.asOf.getTime();
+  const entries = data.priceHistory
+    .filter(p => p.materialId === material.id)
+    .sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+  if (entries.length === 0) return material.pricePerUnit;
+  const inEffect = entries.filter(p => p.effectiveDate.getTime() <= asOf).pop();
+  return (inEffect ?? entries[0]).pricePerUnit;
+};
+
+const describeQuantity = (quantity: number, unit: string, converted: number, baseUnit: string): string =>
+  unit === baseUnit
+    ? `${formatNumber(quantity)} ${unit}`
+    : `${formatNumber(quantity)} ${unit} (${formatNumber(converted)} ${baseUnit})`;
+
+const describeWaste = (wastePercent = 0): string =>
+  wastePercent > 0 && wastePercent < 100 ? ` ÷ (1 − ${formatNumber(wastePercent)}% susut)` : '';
+
+// Labor cost per routing step, per good unit. A minutes override replaces the
+// routing with a per-unit step and a per-batch setup step.
+const costLabor = (product: Product, laborRates: LaborRate[], overrides: HPPOverrides): LaborDetail[] => {
+  const defaultRate = overrides.laborRateId 
+    ? laborRates.find(r => r.id === overrides.laborRateId)
+    : laborRates[0];
+  const useRouting = overrides.laborMinutes === undefined &&
+    overrides.batchMinutes === undefined &&
+    product.laborSteps.length > 0;
+  const simpleSteps: Omit<LaborStep, 'id'>[] = [
+    { name: 'Tenaga Kerja', minutes: overrides.laborMinutes ?? product.laborMinutes, basis: 'unit', laborRateId: defaultRate?.id ?? '' },
+    { name: 'Persiapan Batch', minutes: overrides.batchMinutes ?? product.batchMinutes, basis: 'batch', laborRateId: defaultRate?.id ?? '' },
+  ];
+  const steps = useRouting ? product.laborSteps : simpleSteps.filter(step => step.minutes > 0);
+  const effectiveYield = getEffectiveYield(product);
+  return steps.map(step => {
+    const rate = laborRates.find(r => r.id === step.laborRateId) ?? defaultRate;
+    const wagePerHour = rate?.wagePerHour ?? DEFAULT_WAGE_PER_HOUR;
+    // Batch work is shared by every good unit of the batch
+    const minutesPerUnit = step.basis === 'batch' ? step.minutes / effectiveYield : step.minutes;
+    return {
+      name: step.name,
+      basis: step.basis,
+      minutes: step.minutes,
+      minutesPerUnit,
+      laborRateName: rate?.name ?? 'Default',
+      wagePerHour,
+      total: (wagePerHour / 60) * minutesPerUnit,
+    };
+  });
+};
+
+// Gas and electricity by the minutes each machine runs per batch, per good unit
+const costUtilities = (product: Product, machines: Machine[]): { detail: UtilityDetail; rate: string }[] => {
+  const effectiveYield = getEffectiveYield(product);
+  return product.machineUsages
+    .filter(usage => usage.minutes > 0)
+    .flatMap(usage => {
+      const machine = machines.find(m => m.id === usage.machineId);
+      if (!machine) return [];
+      const costPerMinute = getMachineCostPerMinute(machine);
+      const detail: UtilityDetail = {
+        machineId: machine.id,
+        name: machine.name,
+        minutes: usage.minutes,
+        costPerMinute,
+        total: (usage.minutes * costPerMinute) / effectiveYield,
+      };
+      return [{ detail, rate: describeMachineRate(machine) }];
+    });
+};
+
+const describeLabor = (product: Product, labor: LaborDetail): HPPTraceStep => ({
+  section: 'labor',
+  label: labor.name,
+  formula: labor.basis === 'batch'
+    ? `${formatNumber(labor.minutes)} menit/batch ÷ ${formatNumber(getEffectiveYield(product))} ${product.yieldUnit ?? 'pcs'} × ${formatCurrency(labor.wagePerHour)}/jam ÷ 60`
+    : `${formatNumber(labor.minutes)} menit × ${formatCurrency(labor.wagePerHour)}/jam ÷ 60`,
+  value: labor.total,
+});
+
+const describeUtility = (product: Product, { detail, rate }: { detail: UtilityDetail; rate: string }): HPPTraceStep => ({
+  section: 'utility',
+  label: detail.name,
+  formula: `${formatNumber(detail.minutes)} menit/batch ÷ ${formatNumber(getEffectiveYield(product))} ${product.yieldUnit ?? 'pcs'} × (${rate})`,
+  value: detail.total,
+});
+
+// Material cost per unit of a product's yield. Sub-recipes are costed by their
+// materials plus their own labor and machine time, as saved; overheads are
+// charged on the finished product only. When `steps` is given, the formula of
+// each ingredient is appended to it.
+const costIngredients = (
   product: Product,
-  overrides: HPPOverrides = {}
-): Promise<HPPResult> => {
-  const materials = await getMaterials();
-  const overheads = await getOverheads();
-  const laborRates = await getLaborRates();
-  
-  const marginPercent = overrides.marginPercent ?? DEFAULT_MARGIN;
-  const monthlyProduction = overrides.monthlyProduction ?? DEFAULT_MONTHLY_PRODUCTION;
-  const laborMinutes = overrides.laborMinutes ?? product.laborMinutes;
-  
-  // Calculate material costs
-  const materialDetails = product.ingredients.map(ingredient => {
-    const material = materials.find(m => m.id === ingredient.materialId);
+  ctx: CostingContext,
+  path: string[],
+  steps?: HPPTraceStep[]
+): MaterialDetail[] => {
+  const effectiveYield = getEffectiveYield(product);
+  const perYield = `÷ ${formatNumber(effectiveYield)} ${product.yieldUnit ?? 'pcs'}`;
+
+  return product.ingredients.map(ingredient => {
+    if (ingredient.subProductId) {
+      const subProduct = ctx.data.products.find(p => p.id === ingredient.subProductId);
+      if (!subProduct) {
+        return {
+          name: 'Unknown Product',
+          netQuantity: ingredient.quantity,
+          quantity: ingredient.quantity,
+          unit: 'pcs' as Unit,
+          pricePerUnit: 0,
+          total: 0,
+        };
+      }
+      if (path.includes(subProduct.id)) {
+        const names = [...path, subProduct.id].map(id => ctx.data.products.find(p => p.id === id)?.name ?? id);
+        throw new Error(`Resep melingkar: ${names.join(' → ')}`);
+      }
+
+      const yieldUnit = subProduct.yieldUnit ?? 'pcs';
+      const recipeUnit = ingredient.unit ?? yieldUnit;
+      const quantity = isKitchenUnit(recipeUnit) ? null : convertQuantity(ingredient.quantity, recipeUnit, yieldUnit);
+      if (quantity === null) {
+        throw new Error(`${recipeUnit} tidak bisa dikonversi ke ${yieldUnit} untuk ${subProduct.name}`);
+      }
+      const netPerUnit = quantity / effectiveYield;
+      const quantityPerUnit = grossUp(netPerUnit, ingredient.wastePercent);
+
+      const subSteps: HPPTraceStep[] | undefined = steps && [];
+      const subDetails = costIngredients(subProduct, ctx, [...path, subProduct.id], subSteps);
+      const subLabor = costLabor(subProduct, ctx.data.laborRates, {});
+      const subUtilities = costUtilities(subProduct, ctx.data.machines);
+      subSteps?.push(
+        ...subLabor.map(l => describeLabor(subProduct, l)),
+        ...subUtilities.map(line => describeUtility(subProduct, line))
+      );
+      const processCost = subLabor.reduce((sum, l) => sum + l.total, 0) +
+        subUtilities.reduce((sum, u) => sum + u.detail.total, 0);
+      const pricePerUnit = subDetails.reduce((sum, d) => sum + d.total, 0) + processCost;
+
+      steps?.push({
+        section: 'material',
+        label: subProduct.name,
+        formula: `${describeQuantity(ingredient.quantity, recipeUnit, quantity, yieldUnit)} ${perYield}` +
+          `${describeWaste(ingredient.wastePercent)} × ${formatCurrency(pricePerUnit, 2)}/${yieldUnit}`,
+        value: quantityPerUnit * pricePerUnit,
+        children: subSteps,
+      });
+
+      return {
+        name: subProduct.name,
+        netQuantity: netPerUnit,
+        quantity: quantityPerUnit,
+        unit: yieldUnit,
+        pricePerUnit,
+        total: quantityPerUnit * pricePerUnit,
+        children: subDetails.map(d => scaleDetail(d, quantityPerUnit)),
+        processCost: processCost * quantityPerUnit,
+        laborMinutes: subLabor.reduce((sum, l) => sum + l.minutesPerUnit, 0) * quantityPerUnit,
+      };
+    }
+
+    const material = ctx.data.materials.find(m => m.id === ingredient.materialId);
     if (!material) {
       return {
         name: 'Unknown Material',
+        netQuantity: ingredient.quantity,
         quantity: ingredient.quantity,
         unit: 'pcs' as Unit,
         pricePerUnit: 0,
@@ -37,56 +289,194 @@ export const calculateHPP = async (
       };
     }
     
-    // Check for price override
-    const priceOverride = overrides.materialPrices?.find(
-      p => p.materialId === ingredient.materialId
-    );
-    const pricePerUnit = priceOverride?.pricePerUnit ?? material.pricePerUnit;
+    const pricePerUnit = resolveMaterialPrice(material, ctx.data, ctx.overrides);
+    
+    // Convert recipe quantity into the unit the material is priced in; an
+    // unconvertible unit would otherwise cost the ingredient at zero
+    const recipeUnit = ingredient.unit ?? material.unit;
+    const quantity = resolveQuantity(ingredient.quantity, recipeUnit, material);
+    if (quantity === null) {
+      throw new Error(`${recipeUnit} tidak bisa dikonversi ke ${material.unit} untuk ${material.name}`);
+    }
     
-    // Calculate cost per unit of product
-    const quantityPerUnit = ingredient.quantity / product.yieldPerBatch;
+    // Calculate cost per good unit of product, buying extra for waste
+    const netPerUnit = quantity / effectiveYield;
+    const quantityPerUnit = grossUp(netPerUnit, ingredient.wastePercent);
     const total = quantityPerUnit * pricePerUnit;
+
+    steps?.push({
+      section: 'material',
+      label: material.name,
+      formula: `${describeQuantity(ingredient.quantity, recipeUnit, quantity, material.unit)} ${perYield}` +
+        `${describeWaste(ingredient.wastePercent)} × ${formatCurrency(pricePerUnit, 2)}/${material.unit}`,
+      value: total,
+    });
     
     return {
+      materialId: material.id,
       name: material.name,
+      netQuantity: netPerUnit,
       quantity: quantityPerUnit,
       unit: material.unit,
       pricePerUnit,
       total,
     };
   });
+};
+
+// Everything calculateHPP reads, loaded once so many products can be costed
+export interface HPPData {
+  materials: Material[];
+  priceHistory: MaterialPriceEntry[];
+  lots: MaterialLot[];
+  costingMethod: CostingMethod;
+  overheads: Overhead[];
+  laborRates: LaborRate[];
+  machines: Machine[];
+  products: Product[];
+  sales: Sale[];
+  pricing: PricingSettings;
+  channels: SalesChannel[];
+}
+
+export const loadHPPData = async (): Promise<HPPData> => {
+  const [materials, priceHistory, lots, costingMethod, overheads, laborRates, machines, products, sales, pricing, channels] = await Promise.all([
+    getMaterials(),
+    getMaterialPrices(),
+    getMaterialLots(),
+    getCostingMethod(),
+    getOverheads(),
+    getLaborRates(),
+    getMachines(),
+    getProducts(),
+    getSales(),
+    getPricingSettings(),
+    getSalesChannels(),
+  ]);
+  return { materials, priceHistory, lots, costingMethod, overheads, laborRates, machines, products, sales, pricing, channels };
+};
+
+// Same as calculateHPP, without fetching anything
+export const computeHPP = (
+  product: Product,
+  data: HPPData,
+  overrides: HPPOverrides = {},
+  options: HPPOptions = {}
+): HPPResult => {
+  const { overheads, laborRates, products, sales } = data;
+  const savedPricing = overrides.pricing ?? data.pricing;
+  const channels = overrides.channels ?? data.channels;
+  
+  const pricing: PricingSettings = {
+    ...savedPricing,
+    marginPercent: overrides.marginPercent ?? savedPricing.marginPercent,
+  };
+  const monthlyProduction = overrides.monthlyProduction ?? DEFAULT_MONTHLY_PRODUCTION;
+  
+  // Calculate material costs, expanding sub-recipes
+  const materialSteps: HPPTraceStep[] | undefined = options.trace ? [] : undefined;
+  const materialDetails = costIngredients(product, { data, overrides }, [product.id], materialSteps);
   
   const materialsTotal = materialDetails.reduce((sum, m) => sum + m.total, 0);
   
-  // Calculate labor cost
-  const laborRate = overrides.laborRateId 
-    ? laborRates.find(r => r.id === overrides.laborRateId)
-    : laborRates[0];
-  const wagePerMinute = (laborRate?.wagePerHour ?? 20000) / 60;
-  const laborCost = wagePerMinute * laborMinutes;
+  const laborDetails = costLabor(product, laborRates, overrides);
+  const laborCost = laborDetails.reduce((sum, l) => sum + l.total, 0);
+
+  const utilityLines = costUtilities(product, data.machines);
+  const utilityDetails = utilityLines.map(line => line.detail);
+  const utilityCost = utilityDetails.reduce((sum, u) => sum + u.total, 0);
   
-  // Calculate overhead allocation
-  let overheadCost = 0;
-  overheads.forEach(overhead => {
-    switch (overhead.allocationType) {
-      case 'fixed':
-        // Distribute monthly overhead across monthly production
-        overheadCost += overhead.amount / monthlyProduction;
-        break;
-      case 'per_unit':
-        overheadCost += overhead.amount;
-        break;
-      case 'percentage':
-        overheadCost += (materialsTotal + laborCost) * (overhead.amount / 100);
-        break;
-    }
-  });
+  // Calculate overhead allocation, only for overheads scoped to this product
+  const activity = getProductActivity(products, sales);
+  const overheadLines = overheads
+    .filter(overhead => isOverheadInScope(overhead, product))
+    .map(overhead => {
+      let amount = 0;
+      let formula = '';
+      switch (overhead.allocationType) {
+        case 'fixed': {
+          // Distribute monthly overhead by its driver, or evenly across monthly production
+          const allocated = allocateFixedOverhead(overhead, product, products, activity);
+          amount = allocated ?? overhead.amount / monthlyProduction;
+          const driver = ALLOCATION_DRIVERS.find(d => d.value === overhead.allocationDriver)?.label ?? '';
+          formula = allocated === null
+            ? `${formatCurrency(overhead.amount)} ÷ ${formatNumber(monthlyProduction)} unit`
+            : `${formatCurrency(overhead.amount)}/bulan dibagi menurut ${driver.toLowerCase()}`;
+          break;
+        }
+        case 'per_unit':
+          amount = overhead.amount;
+          formula = `${formatCurrency(overhead.amount)} per unit`;
+          break;
+        case 'percentage':
+          amount = (materialsTotal + laborCost) * (overhead.amount / 100);
+          formula = `${formatNumber(overhead.amount)}% × (${formatCurrency(materialsTotal)} + ${formatCurrency(laborCost)})`;
+          break;
+      }
+      const detail: OverheadDetail = {
+        overheadId: overhead.id,
+        name: overhead.name,
+        allocationType: overhead.allocationType,
+        amount,
+      };
+      return { detail, formula };
+    });
+  const overheadDetails = overheadLines.map(line => line.detail);
+  const overheadCost = overheadDetails.reduce((sum, o) => sum + o.amount, 0);
   
-  const hppPerUnit = materialsTotal + laborCost + overheadCost;
+  const hppPerUnit = materialsTotal + laborCost + utilityCost + overheadCost;
   
-  // Calculate suggested price with margin
-  const suggestedPrice = hppPerUnit / (1 - marginPercent / 100);
+  // Suggested price for every strategy, the configured one is the recommendation
+  const priceSuggestions = getPriceSuggestions(hppPerUnit, materialsTotal, pricing);
+  const suggestedPrice = priceSuggestions.find(s => s.strategy === pricing.strategy)!.price;
   
+  // Channel prices that keep the shop price's net revenue after fees and PPN
+  const channelPrices = getChannelPrices(suggestedPrice, hppPerUnit, channels, pricing.rounding);
+
+  const trace: HPPTraceStep[] | undefined = materialSteps && [
+    ...materialSteps,
+    {
+      section: 'total',
+      label: 'Total Bahan',
+      formula: materialDetails.map(m => formatCurrency(m.total)).join(' + ') || formatCurrency(0),
+      value: materialsTotal,
+    },
+    ...laborDetails.map(l => describeLabor(product, l)),
+    ...utilityLines.map(line => describeUtility(product, line)),
+    ...overheadLines.map(line => ({
+      section: 'overhead' as const,
+      label: line.detail.name,
+      formula: line.formula,
+      value: line.detail.amount,
+    })),
+    {
+      section: 'total',
+      label: 'HPP per Unit',
+      formula: `${formatCurrency(materialsTotal)} bahan + ${formatCurrency(laborCost)} tenaga kerja + ` +
+        `${utilityDetails.length > 0 ? `${formatCurrency(utilityCost)} utilitas + ` : ''}${formatCurrency(overheadCost)} overhead`,
+      value: hppPerUnit,
+    },
+    {
+      section: 'price',
+      label: 'Harga Jual Rekomendasi',
+      formula: describePriceFormula(pricing.strategy, hppPerUnit, materialsTotal, pricing),
+      value: suggestedPrice,
+    },
+  ];
+  
+  // Each variant is costed as its own product; a labor override still gets the variant's extra minutes
+  const variants = product.variants.length > 0
+    ? product.variants.map(variant => ({
+      ...computeHPP(applyVariant(product, variant), data, {
+        ...overrides,
+        laborMinutes: overrides.laborMinutes !== undefined
+          ? overrides.laborMinutes + variant.extraLaborMinutes
+          : undefined,
+      }, options),
+      variantId: variant.id,
+    }))
+    : undefined;
+
   return {
     productId: product.id,
     productName: product.name,
@@ -95,26 +485,27 @@ export const calculateHPP = async (
       materialsTotal,
       materialDetails,
       laborCost,
+      laborDetails,
+      utilityCost,
+      utilityDetails,
       overheadCost,
+      overheadDetails,
       hppPerUnit,
     },
-    suggestedPrice: Math.ceil(suggestedPrice / 100) * 100, // Round up to nearest 100
-    marginPercent,
+    suggestedPrice,
+    marginPercent: pricing.marginPercent,
+    pricingStrategy: pricing.strategy,
+    priceSuggestions,
+    channelPrices,
+    trace,
+    variants,
   };
 };
 
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('id-ID', {
-    style: 'currency',
-    currency: 'IDR',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
-};
-
-export const formatNumber = (num: number, decimals: number = 2): string => {
-  return new Intl.NumberFormat('id-ID', {
-    minimumFractionDigits: 0,
-    maximumFractionDigits: decimals,
-  }).format(num);
+export const calculateHPP = async (
+  product: Product,
+  overrides: HPPOverrides = {},
+  options: HPPOptions = {}
+): Promise<HPPResult> => {
+  return computeHPP(product, await loadHPPData(), overrides, options);
 };
@@ -0,0 +1,100 @@
+import type { HPPResult, HPPSnapshot, SnapshotLine, SnapshotTrigger } from '@/types';
+import { addSnapshots, getSnapshots } from './store';
+import { loadHPPData } from './hpp-calculator';
+import { calculateAllProductCosts } from './product-costs';
+
+export const SNAPSHOT_TRIGGERS: Record<SnapshotTrigger, string> = {
+  manual: 'Disimpan manual',
+  material: 'Bahan baku berubah',
+  product: 'Resep/produk berubah',
+  settings: 'Pengaturan berubah',
+};
+
+// Changes smaller than this (in rupiah per unit) are treated as rounding noise
+const CHANGE_THRESHOLD = 0.5;
+
+export interface SnapshotChange {
+  kind: SnapshotLine['kind'];
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export const toSnapshot = (hpp: HPPResult, trigger: SnapshotTrigger): Omit<HPPSnapshot, 'id'> => ({
+  productId: hpp.productId,
+  computedAt: new Date(hpp.computedAt),
+  trigger,
+  hppPerUnit: hpp.breakdown.hppPerUnit,
+  materialsTotal: hpp.breakdown.materialsTotal,
+  laborCost: hpp.breakdown.laborCost,
+  overheadCost: hpp.breakdown.overheadCost,
+  suggestedPrice: hpp.suggestedPrice,
+  lines: [
+    ...hpp.breakdown.materialDetails.map(m => ({
+      kind: 'material' as const,
+      key: `material:${m.name}`,
+      name: m.name,
+      amount: m.total,
+    })),
+    ...hpp.breakdown.laborDetails.map(l => ({
+      kind: 'labor' as const,
+      key: `labor:${l.name}`,
+      name: l.name,
+      amount: l.total,
+    })),
+    ...hpp.breakdown.utilityDetails.map(u => ({
+      kind: 'utility' as const,
+      key: `utility:${u.machineId}`,
+      name: u.name,
+      amount: u.total,
+    })),
+    ...hpp.breakdown.overheadDetails.map(o => ({
+      kind: 'overhead' as const,
+      key: `overhead:${o.overheadId}`,
+      name: o.name,
+      amount: o.amount,
+    })),
+  ],
+});
+
+// Cost lines that moved between two snapshots, largest change first
+export const diffSnapshots = (before: HPPSnapshot, after: HPPSnapshot): SnapshotChange[] => {
+  const keys = [...new Set([...before.lines, ...after.lines].map(l => l.key))];
+  return keys
+    .map(key => {
+      const old = before.lines.find(l => l.key === key);
+      const next = after.lines.find(l => l.key === key);
+      const line = (next ?? old)!;
+      return {
+        kind: line.kind,
+        name: line.name,
+        before: old?.amount ?? 0,
+        after: next?.amount ?? 0,
+        delta: (next?.amount ?? 0) - (old?.amount ?? 0),
+      };
+    })
+    .filter(change => Math.abs(change.delta) >= CHANGE_THRESHOLD)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+};
+
+/**
+ * Recomputes every product and stores a snapshot for those whose HPP moved
+ * since their last snapshot. Called after materials, products or settings are
+ * saved; failures are logged and never block the save itself.
+ */
+export const recordSnapshots = async (trigger: SnapshotTrigger): Promise<void> => {
+  try {
+    const [data, history] = await Promise.all([loadHPPData(), getSnapshots()]);
+    const snapshots = calculateAllProductCosts(data)
+      .filter(c => c.hpp)
+      .map(c => toSnapshot(c.hpp!, trigger))
+      .filter(snapshot => {
+        const previous = history.filter(h => h.productId === snapshot.productId).pop();
+        return !previous || Math.abs(previous.hppPerUnit - snapshot.hppPerUnit) >= CHANGE_THRESHOLD;
+      });
+    await addSnapshots(snapshots);
+  } catch (error) {
+    console.error('Error recording HPP snapshots:', error);
+  }
+};
@@ -0,0 +1,140 @@
+import type { Product, ProductIngredient } from '@/types';
+import {
+  DEFAULT_WAGE_PER_HOUR,
+  formatCurrency,
+  resolveMaterialPrice,
+  type HPPData,
+  type HPPOverrides,
+} from './hpp-calculator';
+import { isOverheadInScope } from './overhead-allocation';
+import { getEffectiveYield } from './production';
+import { isKitchenUnit, convertQuantity, resolveQuantity } from './units';
+
+export type HPPIssueCode =
+  | 'missing_material'
+  | 'missing_sub_product'
+  | 'unconvertible_unit'
+  | 'zero_price'
+  | 'zero_yield'
+  | 'no_labor_rate'
+  | 'missing_machine'
+  | 'negative_overhead';
+
+// Errors make the HPP wrong and block the calculation; warnings may be intended
+export type HPPIssueSeverity = 'error' | 'warning';
+
+export interface HPPIssue {
+  code: HPPIssueCode;
+  severity: HPPIssueSeverity;
+  productId: string; // The recipe the issue is in, possibly a sub-recipe
+  message: string;
+}
+
+const SEVERITIES: Record<HPPIssueCode, HPPIssueSeverity> = {
+  missing_material: 'error',
+  missing_sub_product: 'error',
+  unconvertible_unit: 'error',
+  zero_price: 'warning',
+  zero_yield: 'error',
+  no_labor_rate: 'warning',
+  missing_machine: 'error',
+  negative_overhead: 'error',
+};
+
+type ValidationData = Pick<
+  HPPData,
+  'materials' | 'priceHistory' | 'lots' | 'costingMethod' | 'products' | 'laborRates' | 'machines' | 'overheads'
+>;
+
+/**
+ * Checks everything calculateHPP would otherwise cost at zero or divide by
+ * zero: the product's recipe and its sub-recipes, yield, labor rates, machines
+ * and the overheads charged to it. Prices are checked as the calculation
+ * would resolve them with the same overrides.
+ */
+export const validateProduct = (product: Product, data: ValidationData, overrides: HPPOverrides = {}): HPPIssue[] => {
+  const issues: HPPIssue[] = [];
+  // Issues in a sub-recipe name it, since they surface on every product using it
+  const add = (code: HPPIssueCode, recipe: Product, text: string) => {
+    const message = recipe.id === product.id
+      ? text.charAt(0).toUpperCase() + text.slice(1)
+      : `Sub-resep ${recipe.name}: ${text}`;
+    if (issues.some(i => i.code === code && i.message === message)) return;
+    issues.push({ code, severity: SEVERITIES[code], productId: recipe.id, message });
+  };
+
+  // `context` names the variant a line belongs to
+  const checkIngredient = (recipe: Product, ingredient: ProductIngredient, visited: string[], context = '') => {
+    if (ingredient.subProductId) {
+      const subProduct = data.products.find(p => p.id === ingredient.subProductId);
+      if (!subProduct) {
+        add('missing_sub_product', recipe, `sub-resep${context} sudah dihapus`);
+        return;
+      }
+      const yieldUnit = subProduct.yieldUnit ?? 'pcs';
+      const unit = ingredient.unit ?? yieldUnit;
+      if (isKitchenUnit(unit) || convertQuantity(1, unit, yieldUnit) === null) {
+        add('unconvertible_unit', recipe, `${unit} tidak bisa dikonversi ke ${yieldUnit} untuk ${subProduct.name}${context}`);
+      }
+      // Cycles are reported by the calculation itself
+      if (!visited.includes(subProduct.id)) checkRecipe(subProduct, [...visited, subProduct.id]);
+      return;
+    }
+
+    const material = data.materials.find(m => m.id === ingredient.materialId);
+    if (!material) {
+      add('missing_material', recipe, `bahan baku${context} sudah dihapus`);
+      return;
+    }
+    const unit = ingredient.unit ?? material.unit;
+    if (resolveQuantity(1, unit, material) === null) {
+      add('unconvertible_unit', recipe, `${unit} tidak bisa dikonversi ke ${material.unit} untuk ${material.name}${context}`);
+    }
+    if (resolveMaterialPrice(material, data, overrides) <= 0) {
+      add('zero_price', recipe, `harga ${material.name} masih Rp0`);
+    }
+  };
+
+  const checkRecipe = (recipe: Product, visited: string[]) => {
+    if (getEffectiveYield(recipe) <= 0) {
+      add('zero_yield', recipe, `hasil per batch harus lebih dari 0`);
+    }
+
+    // Sub-recipes carry their own labor and machine time too
+    const hasLabor = recipe.laborSteps.length > 0 || recipe.laborMinutes > 0 || recipe.batchMinutes > 0;
+    if (hasLabor && data.laborRates.length === 0) {
+      add('no_labor_rate', recipe, `belum ada tarif tenaga kerja, dipakai tarif bawaan ${formatCurrency(DEFAULT_WAGE_PER_HOUR)}/jam`);
+    }
+    recipe.laborSteps
+      .filter(step => data.laborRates.length > 0 && !data.laborRates.some(r => r.id === step.laborRateId))
+      .forEach(step => {
+        add('no_labor_rate', recipe, `tarif untuk langkah ${step.name} sudah dihapus, dipakai tarif pertama`);
+      });
+
+    recipe.machineUsages
+      .filter(usage => !data.machines.some(m => m.id === usage.machineId))
+      .forEach(() => add('missing_machine', recipe, `mesin yang dipakai sudah dihapus`));
+
+    recipe.ingredients.forEach(ingredient => checkIngredient(recipe, ingredient, visited));
+  };
+
+  checkRecipe(product, [product.id]);
+
+  // Overrides reuse the base line's unit, so the recipe check above covers them
+  product.variants.forEach(variant => {
+    variant.extraIngredients.forEach(extra => {
+      checkIngredient(product, extra, [product.id], ` (varian ${variant.name})`);
+    });
+  });
+
+  data.overheads
+    .filter(overhead => overhead.amount < 0 && isOverheadInScope(overhead, product))
+    .forEach(overhead => {
+      add('negative_overhead', product, `overhead ${overhead.name} bernilai negatif`);
+    });
+
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: HPPIssue[]): boolean =>
+  issues.some(issue => issue.severity === 'error');
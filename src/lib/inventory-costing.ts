@@ -0,0 +1,53 @@
+import type { CostingMethod, Material, MaterialLot } from '@/types';
+
+export const COSTING_METHODS: { value: CostingMethod; label: string; description: string }[] = [
+  { value: 'latest', label: 'Harga Terakhir', description: 'Memakai harga bahan yang tercatat paling baru' },
+  { value: 'weighted_average', label: 'Rata-rata Tertimbang', description: 'Rata-rata biaya seluruh stok yang masih ada' },
+  { value: 'fifo', label: 'FIFO', description: 'Biaya stok yang diterima paling awal dan belum terpakai' },
+];
+
+export const DEFAULT_COSTING_METHOD: CostingMethod = 'latest';
+
+export interface StockLayer {
+  lot: MaterialLot;
+  quantity: number; // Still in stock from this lot
+}
+
+/**
+ * Lots making up the material's current stock, oldest first. Stock is assumed
+ * to be used first-in first-out, so what is on hand is the most recently
+ * received lots up to the recorded stock amount.
+ */
+export const getStockLayers = (material: Material, lots: MaterialLot[]): StockLayer[] => {
+  const layers: StockLayer[] = [];
+  let remaining = material.stockAmount;
+  const newestFirst = lots
+    .filter(l => l.materialId === material.id && l.quantity > 0)
+    .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime());
+
+  for (const lot of newestFirst) {
+    if (remaining <= 0) break;
+    const quantity = Math.min(lot.quantity, remaining);
+    layers.unshift({ lot, quantity });
+    remaining -= quantity;
+  }
+  return layers;
+};
+
+// Unit cost under the chosen method; falls back to the material's price when
+// no received lot is still in stock
+export const getInventoryUnitCost = (
+  material: Material,
+  lots: MaterialLot[],
+  method: CostingMethod
+): number => {
+  if (method === 'latest') return material.pricePerUnit;
+
+  const layers = getStockLayers(material, lots);
+  if (layers.length === 0) return material.pricePerUnit;
+
+  if (method === 'fifo') return layers[0].lot.unitCost;
+
+  const quantity = layers.reduce((sum, l) => sum + l.quantity, 0);
+  return layers.reduce((sum, l) => sum + l.quantity * l.lot.unitCost, 0) / quantity;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { LABOR_RESOURCE_ID, optimizeProductMix, type MixProduct, type MixResource } from './optimizer';
+
+const product = (
+  productId: string,
+  contributionMargin: number,
+  usage: Record<string, number>,
+  minUnits = 0,
+  maxUnits = 100
+): MixProduct => ({
+  productId,
+  name: productId,
+  price: contributionMargin + 1000,
+  contributionMargin,
+  usage,
+  minUnits,
+  maxUnits,
+});
+
+const flour = (available: number): MixResource => ({ id: 'flour', name: 'Tepung', unit: 'kg', available });
+const labor = (available: number): MixResource => ({ id: LABOR_RESOURCE_ID, name: 'Tenaga kerja', unit: 'menit', available });
+
+// LP optimum is 3 bread and 1.5 cake, the best whole mix is 4 bread
+const bread = product('bread', 5, { flour: 6, [LABOR_RESOURCE_ID]: 1 });
+const cake = product('cake', 4, { flour: 4, [LABOR_RESOURCE_ID]: 2 });
+
+describe('optimizeProductMix', () => {
+  it('finds the integer optimum', () => {
+    const result = optimizeProductMix([bread, cake], [flour(24), labor(6)]);
+    expect(result.status).toBe('optimal');
+    expect(result.units).toEqual({ bread: 4, cake: 0 });
+    expect(result.totalContribution).toBe(20);
+  });
+
+  it('reports minimum demand the resources cannot cover', () => {
+    const result = optimizeProductMix([{ ...bread, minUnits: 5 }], [flour(24), labor(6)]);
+    expect(result.status).toBe('infeasible');
+    expect(result.infeasibleReason).toBe('Tepung tidak cukup untuk memenuhi permintaan minimum');
+  });
+
+  it('marks the labor constraint binding when it limits production', () => {
+    const cookie = product('cookie', 1000, { flour: 1, [LABOR_RESOURCE_ID]: 10 });
+    const result = optimizeProductMix([cookie], [flour(1000), labor(95)]);
+    expect(result.units.cookie).toBe(9);
+
+    const binding = result.constraints.filter(c => c.binding).map(c => c.id);
+    expect(binding).toEqual([LABOR_RESOURCE_ID]);
+  });
+
+  it('makes only the minimum of a product with a negative margin', () => {
+    const loss = product('loss', -500, { flour: 1 }, 3, 10);
+    const result = optimizeProductMix([loss, bread], [flour(100), labor(100)]);
+    expect(result.units.loss).toBe(3);
+
+    const minimum = result.constraints.find(c => c.kind === 'demand_min' && c.id === 'loss');
+    expect(minimum?.binding).toBe(true);
+    expect(result.constraints.find(c => c.kind === 'demand_max' && c.id === 'loss')?.binding).toBe(false);
+  });
+
+  it('reports a feasible mix when the node cap cuts the search short', () => {
+    const result = optimizeProductMix([bread, cake], [flour(24), labor(6)], 1);
+    expect(result.status).toBe('feasible');
+    expect(result.units).toEqual({ bread: 0, cake: 0 });
+  });
+});
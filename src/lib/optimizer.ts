@@ -0,0 +1,269 @@
+import type { HPPResult, MaterialDetail, Sale } from '@/types';
+import { getAverageSellingPrice, getSoldMix, getVariableCost, weighSoldMix } from './break-even';
+
+// Resource id of the labor-minutes constraint; materials use their own id
+export const LABOR_RESOURCE_ID = 'labor';
+
+// Below this much of expected demand is the default weekly minimum
+export const DEFAULT_MIN_DEMAND_SHARE = 0.5;
+
+export interface MixProduct {
+  productId: string;
+  name: string;
+  price: number; // Average selling price, or the suggestion when unsold
+  contributionMargin: number; // Price less variable cost, per unit
+  usage: Record<string, number>; // Per unit, keyed by resource id
+  minUnits: number;
+  maxUnits: number;
+}
+
+export interface MixResource {
+  id: string;
+  name: string;
+  unit: string;
+  available: number;
+}
+
+export type MixConstraintKind = 'resource' | 'demand_max' | 'demand_min';
+
+export interface MixConstraint {
+  kind: MixConstraintKind;
+  id: string; // Resource or product id
+  label: string;
+  used: number;
+  limit: number;
+  unit: string;
+  binding: boolean; // Holds back a more profitable mix
+}
+
+export interface MixResult {
+  status: 'optimal' | 'feasible' | 'infeasible'; // 'feasible' when the search was cut short
+  units: Record<string, number>;
+  totalContribution: number;
+  constraints: MixConstraint[];
+  infeasibleReason?: string;
+}
+
+const EPSILON = 1e-9;
+const MAX_PIVOTS = 10000;
+const MAX_NODES = 5000;
+
+// Raw material use per unit, with sub-recipes expanded to their materials and
+// the labor minutes spent making them
+const addMaterialUsage = (details: MaterialDetail[], usage: Record<string, number>) => {
+  details.forEach(detail => {
+    if (detail.laborMinutes) usage[LABOR_RESOURCE_ID] += detail.laborMinutes;
+    if (detail.children) addMaterialUsage(detail.children, usage);
+    else if (detail.materialId) usage[detail.materialId] = (usage[detail.materialId] ?? 0) + detail.quantity;
+  });
+};
+
+/**
+ * A product's input to the optimizer. Price, cost and resource use follow the
+ * variant mix that sold, the base recipe when the product never sold. The
+ * contribution margin leaves out fixed monthly overheads, which are paid
+ * whatever the mix is.
+ */
+export const toMixProduct = (hpp: HPPResult, sales: Sale[], minUnits: number, maxUnits: number): MixProduct => {
+  const soldMix = getSoldMix(hpp, sales);
+  const mix = soldMix.length > 0 ? soldMix : [{ result: hpp, units: 1, revenue: 0 }];
+  const price = getAverageSellingPrice(soldMix) ?? hpp.suggestedPrice;
+
+  // Use per unit of the mix, each variant weighted by the units it sold
+  const mixUnits = mix.reduce((sum, line) => sum + line.units, 0);
+  const usage: Record<string, number> = {};
+  mix.forEach(line => {
+    const lineUsage: Record<string, number> = {
+      [LABOR_RESOURCE_ID]: line.result.breakdown.laborDetails.reduce((sum, l) => sum + l.minutesPerUnit, 0),
+    };
+    addMaterialUsage(line.result.breakdown.materialDetails, lineUsage);
+    Object.entries(lineUsage).forEach(([id, amount]) => {
+      usage[id] = (usage[id] ?? 0) + (amount * line.units) / mixUnits;
+    });
+  });
+
+  return {
+    productId: hpp.productId,
+    name: hpp.productName,
+    price,
+    contributionMargin: price - weighSoldMix(mix, getVariableCost),
+    usage,
+    minUnits,
+    maxUnits,
+  };
+};
+
+/**
+ * Maximises c·y subject to A·y ≤ b and y ≥ 0, for b ≥ 0 so the slack basis is
+ * a feasible start. Dense tableau with Bland's rule, enough for a few dozen
+ * products and materials.
+ */
+const simplex = (c: number[], A: number[][], b: number[]): { y: number[]; value: number } | null => {
+  const m = A.length;
+  const n = c.length;
+  const width = n + m + 1;
+  const tableau = A.map((row, i) => {
+    const line = new Array(width).fill(0);
+    row.forEach((a, j) => { line[j] = a; });
+    line[n + i] = 1;
+    line[width - 1] = b[i];
+    return line;
+  });
+  const objective = new Array(width).fill(0);
+  c.forEach((value, j) => { objective[j] = -value; });
+  const basis = A.map((_, i) => n + i);
+
+  for (let pivots = 0; pivots < MAX_PIVOTS; pivots++) {
+    const entering = objective.findIndex((value, j) => j < width - 1 && value < -EPSILON);
+    if (entering === -1) break;
+
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < m; i++) {
+      const a = tableau[i][entering];
+      if (a <= EPSILON) continue;
+      const ratio = tableau[i][width - 1] / a;
+      if (ratio < bestRatio - EPSILON || (Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[leaving])) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+    if (leaving === -1) return null; // Unbounded
+
+    const pivot = tableau[leaving][entering];
+    tableau[leaving] = tableau[leaving].map(value => value / pivot);
+    const pivotRow = tableau[leaving];
+    [...tableau.slice(0, leaving), ...tableau.slice(leaving + 1), objective].forEach(row => {
+      const factor = row[entering];
+      if (Math.abs(factor) <= EPSILON) return;
+      for (let j = 0; j < width; j++) row[j] -= factor * pivotRow[j];
+    });
+    basis[leaving] = entering;
+  }
+
+  const y = new Array(n).fill(0);
+  basis.forEach((variable, i) => {
+    if (variable < n) y[variable] = tableau[i][width - 1];
+  });
+  return { y, value: objective[width - 1] };
+};
+
+/**
+ * Units of each product to make that maximise the total contribution margin,
+ * within the stock of every material, the available labor minutes and each
+ * product's demand bounds. Integer units come from branch and bound over the
+ * LP relaxation, searching at most `maxNodes` nodes.
+ */
+export const optimizeProductMix = (
+  products: MixProduct[],
+  resources: MixResource[],
+  maxNodes = MAX_NODES
+): MixResult => {
+  const c = products.map(p => p.contributionMargin);
+  const usage = (resource: MixResource, product: MixProduct) => product.usage[resource.id] ?? 0;
+
+  // Every coefficient is non-negative, so the least use of a resource is at the lower bounds
+  const solveNode = (lower: number[], upper: number[]) => {
+    const A: number[][] = [];
+    const b: number[] = [];
+    for (const resource of resources) {
+      const remaining = resource.available - products.reduce((sum, p, i) => sum + usage(resource, p) * lower[i], 0);
+      if (remaining < -EPSILON) return null;
+      A.push(products.map(p => usage(resource, p)));
+      b.push(Math.max(0, remaining));
+    }
+    products.forEach((_, i) => {
+      const row = new Array(products.length).fill(0);
+      row[i] = 1;
+      A.push(row);
+      b.push(upper[i] - lower[i]);
+    });
+    const solution = simplex(c, A, b);
+    if (!solution) return null;
+    const x = solution.y.map((y, i) => lower[i] + y);
+    return { x, value: x.reduce((sum, units, i) => sum + units * c[i], 0) };
+  };
+
+  const rootLower = products.map(p => Math.ceil(p.minUnits));
+  const rootUpper = products.map(p => Math.max(Math.ceil(p.minUnits), Math.floor(p.maxUnits)));
+
+  const short = resources.find(resource =>
+    products.reduce((sum, p, i) => sum + usage(resource, p) * rootLower[i], 0) > resource.available + EPSILON
+  );
+  if (short) {
+    return {
+      status: 'infeasible',
+      units: {},
+      totalContribution: 0,
+      constraints: [],
+      infeasibleReason: `${short.name} tidak cukup untuk memenuhi permintaan minimum`,
+    };
+  }
+
+  let best: { x: number[]; value: number } | null = null;
+  let nodes = 0;
+  const stack = [{ lower: rootLower, upper: rootUpper }];
+  while (stack.length > 0 && nodes < maxNodes) {
+    const { lower, upper } = stack.pop()!;
+    nodes++;
+    const relaxed = solveNode(lower, upper);
+    if (!relaxed || (best && relaxed.value <= best.value + EPSILON)) continue;
+
+    const fractional = relaxed.x.findIndex(units => Math.abs(units - Math.round(units)) > 1e-6);
+    if (fractional === -1) {
+      best = { x: relaxed.x.map(Math.round), value: relaxed.value };
+      continue;
+    }
+    const units = relaxed.x[fractional];
+    stack.push({ lower, upper: upper.map((u, i) => (i === fractional ? Math.floor(units) : u)) });
+    stack.push({ lower: lower.map((l, i) => (i === fractional ? Math.ceil(units) : l)), upper });
+  }
+
+  // The lower bounds always fit once the check above passed
+  const x = best?.x ?? rootLower;
+
+  // A constraint binds when it stops one more unit of a product that would add profit
+  const canGrow = (i: number) => c[i] > EPSILON && x[i] < rootUpper[i];
+  const constraints: MixConstraint[] = [
+    ...resources.map(resource => {
+      const used = products.reduce((sum, p, i) => sum + usage(resource, p) * x[i], 0);
+      const slack = resource.available - used;
+      return {
+        kind: 'resource' as const,
+        id: resource.id,
+        label: resource.name,
+        used,
+        limit: resource.available,
+        unit: resource.unit,
+        binding: products.some((p, i) => canGrow(i) && usage(resource, p) > EPSILON && usage(resource, p) > slack + EPSILON),
+      };
+    }),
+    ...products.flatMap((p, i) => [
+      {
+        kind: 'demand_max' as const,
+        id: p.productId,
+        label: `Permintaan maksimum ${p.name}`,
+        used: x[i],
+        limit: rootUpper[i],
+        unit: 'unit',
+        binding: c[i] > EPSILON && x[i] >= rootUpper[i],
+      },
+      {
+        kind: 'demand_min' as const,
+        id: p.productId,
+        label: `Permintaan minimum ${p.name}`,
+        used: x[i],
+        limit: rootLower[i],
+        unit: 'unit',
+        binding: rootLower[i] > 0 && x[i] <= rootLower[i] && c[i] < -EPSILON,
+      },
+    ]),
+  ];
+
+  return {
+    status: stack.length === 0 ? 'optimal' : 'feasible',
+    units: Object.fromEntries(products.map((p, i) => [p.productId, x[i]])),
+    totalContribution: x.reduce((sum, units, i) => sum + units * c[i], 0),
+    constraints,
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { AllocationDriver, Overhead, Product } from '@/types';
+import { allocateFixedOverhead, type ProductActivity } from './overhead-allocation';
+
+const product = (id: string, laborMinutes: number): Product => ({
+  id,
+  name: id,
+  description: '',
+  category: '',
+  yieldPerBatch: 10,
+  ingredients: [],
+  laborMinutes,
+  batchMinutes: 0,
+  laborSteps: [],
+  machineUsages: [],
+  variants: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const overhead = (allocationDriver: AllocationDriver): Overhead => ({
+  id: 'rent',
+  name: 'Sewa',
+  amount: 3000000,
+  allocationType: 'fixed',
+  allocationDriver,
+  scope: 'all',
+  productIds: [],
+});
+
+const products = [product('bread', 5), product('cake', 12), product('cookie', 3)];
+
+// The cookie has not sold in the activity window
+const activity: ProductActivity[] = [
+  { productId: 'bread', units: 400, laborMinutes: 2000, revenue: 6000000 },
+  { productId: 'cake', units: 100, laborMinutes: 1200, revenue: 9000000 },
+  { productId: 'cookie', units: 0, laborMinutes: 0, revenue: 0 },
+];
+
+const monthlyTotal = (driver: AllocationDriver) =>
+  products.reduce((sum, p) => {
+    const perUnit = allocateFixedOverhead(overhead(driver), p, products, activity);
+    const units = activity.find(a => a.productId === p.id)!.units;
+    return sum + (perUnit ?? 0) * units;
+  }, 0);
+
+describe('allocateFixedOverhead', () => {
+  it.each<AllocationDriver>(['units', 'labor_minutes', 'revenue'])(
+    'allocates exactly the overhead amount by %s',
+    driver => {
+      expect(monthlyTotal(driver)).toBeCloseTo(overhead(driver).amount);
+    }
+  );
+
+  it('gives an unsold product no revenue share instead of the fallback', () => {
+    expect(allocateFixedOverhead(overhead('revenue'), products[2], products, activity)).toBe(0);
+  });
+
+  it('falls back when the scope has no activity', () => {
+    const idle = activity.map(a => ({ ...a, units: 0, laborMinutes: 0, revenue: 0 }));
+    expect(allocateFixedOverhead(overhead('revenue'), products[0], products, idle)).toBeNull();
+    expect(allocateFixedOverhead(overhead('flat'), products[0], products, activity)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import type { Overhead, Product, Sale, AllocationDriver } from '@/types';
+import { getLaborMinutesPerUnit } from './production';
+
+// Monthly overheads are matched against the last month of sales
+export const ACTIVITY_WINDOW_DAYS = 30;
+
+export const ALLOCATION_DRIVERS: { value: AllocationDriver; label: string }[] = [
+  { value: 'flat', label: 'Bagi rata (estimasi produksi)' },
+  { value: 'units', label: 'Unit terjual' },
+  { value: 'labor_minutes', label: 'Menit tenaga kerja' },
+  { value: 'revenue', label: 'Porsi pendapatan' },
+];
+
+export interface ProductActivity {
+  productId: string;
+  units: number;
+  laborMinutes: number;
+  revenue: number;
+}
+
+export const isOverheadInScope = (overhead: Overhead, product: Product): boolean => {
+  switch (overhead.scope) {
+    case 'products':
+      return overhead.productIds.includes(product.id);
+    case 'category':
+      return !!overhead.category &&
+        product.category.trim().toLowerCase() === overhead.category.trim().toLowerCase();
+    default:
+      return true;
+  }
+};
+
+export const getProductActivity = (
+  products: Product[],
+  sales: Sale[],
+  windowDays: number = ACTIVITY_WINDOW_DAYS
+): ProductActivity[] => {
+  const since = new Date();
+  since.setDate(since.getDate() - windowDays);
+  const recentSales = sales.filter(s => new Date(s.soldAt) >= since);
+
+  return products.map(product => {
+    const productSales = recentSales.filter(s => s.productId === product.id);
+    const units = productSales.reduce((sum, s) => sum + s.quantity, 0);
+    return {
+      productId: product.id,
+      units,
+      laborMinutes: units * getLaborMinutesPerUnit(product),
+      revenue: productSales.reduce((sum, s) => sum + s.quantity * s.unitPrice, 0),
+    };
+  });
+};
+
+/**
+ * Per-unit share of a fixed monthly overhead for one product, based on the
+ * overhead's driver and the activity of every product in its scope. The
+ * shares times the units sold add up to the overhead amount, so a product
+ * without sales in an active scope carries none of it by revenue.
+ * Returns null only when the scope has no activity to allocate by, so the
+ * caller can fall back to dividing by the estimated monthly production.
+ */
+export const allocateFixedOverhead = (
+  overhead: Overhead,
+  product: Product,
+  products: Product[],
+  activity: ProductActivity[]
+): number | null => {
+  const driver = overhead.allocationDriver;
+  if (driver === 'flat') return null;
+
+  const scopedIds = products.filter(p => isOverheadInScope(overhead, p)).map(p => p.id);
+  const scopedActivity = activity.filter(a => scopedIds.includes(a.productId));
+  const own = activity.find(a => a.productId === product.id);
+
+  switch (driver) {
+    case 'units': {
+      const totalUnits = scopedActivity.reduce((sum, a) => sum + a.units, 0);
+      return totalUnits > 0 ? overhead.amount / totalUnits : null;
+    }
+    case 'labor_minutes': {
+      // Share of minutes, spread over the product's own units
+      const totalMinutes = scopedActivity.reduce((sum, a) => sum + a.laborMinutes, 0);
+      return totalMinutes > 0 ? (overhead.amount * getLaborMinutesPerUnit(product)) / totalMinutes : null;
+    }
+    case 'revenue': {
+      const totalRevenue = scopedActivity.reduce((sum, a) => sum + a.revenue, 0);
+      if (totalRevenue <= 0) return null;
+      if (!own || own.units === 0) return 0;
+      return (overhead.amount * (own.revenue / totalRevenue)) / own.units;
+    }
+  }
+};
@@ -0,0 +1,120 @@
+import type { PricingSettings, PricingStrategy, PriceRounding, PriceSuggestion } from '@/types';
+import { formatCurrency } from './format';
+
+export const PRICING_STRATEGIES: { value: PricingStrategy; label: string; description: string }[] = [
+  { value: 'margin', label: 'Margin dari Harga Jual', description: 'Laba sebagai persentase harga jual' },
+  { value: 'markup', label: 'Markup dari HPP', description: 'HPP ditambah persentase dari HPP' },
+  { value: 'food_cost', label: 'Target Food Cost', description: 'Biaya bahan sebagai persentase harga jual' },
+  { value: 'fixed_profit', label: 'Laba Tetap', description: 'HPP ditambah laba rupiah per unit' },
+];
+
+export const PRICE_ROUNDINGS: { value: PriceRounding; label: string }[] = [
+  { value: 'up_100', label: 'Ke atas, kelipatan Rp100' },
+  { value: 'up_500', label: 'Ke atas, kelipatan Rp500' },
+  { value: 'up_1000', label: 'Ke atas, kelipatan Rp1.000' },
+  { value: 'charm_900', label: 'Harga psikologis (akhiran 900)' },
+  { value: 'none', label: 'Tanpa pembulatan' },
+];
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  strategy: 'margin',
+  marginPercent: 30,
+  markupPercent: 50,
+  foodCostPercent: 35,
+  fixedProfit: 5000,
+  rounding: 'up_100',
+};
+
+// Rounds up so the price never drops below what the strategy asks for
+export const roundPrice = (price: number, rounding: PriceRounding): number => {
+  switch (rounding) {
+    case 'up_100':
+      return Math.ceil(price / 100) * 100;
+    case 'up_500':
+      return Math.ceil(price / 500) * 500;
+    case 'up_1000':
+      return Math.ceil(price / 1000) * 1000;
+    case 'charm_900':
+      // Smallest price ending in ...900, e.g. 12.350 -> 12.900
+      return Math.ceil((price - 900) / 1000) * 1000 + 900;
+    default:
+      return price;
+  }
+};
+
+// Unrounded price for one strategy; percentages at or beyond their limit fall back to the HPP
+const priceFor = (
+  strategy: PricingStrategy,
+  hppPerUnit: number,
+  materialsTotal: number,
+  settings: PricingSettings
+): number => {
+  switch (strategy) {
+    case 'margin':
+      return settings.marginPercent < 100 ? hppPerUnit / (1 - settings.marginPercent / 100) : hppPerUnit;
+    case 'markup':
+      return hppPerUnit * (1 + settings.markupPercent / 100);
+    case 'food_cost':
+      return settings.foodCostPercent > 0 ? materialsTotal / (settings.foodCostPercent / 100) : hppPerUnit;
+    case 'fixed_profit':
+      return hppPerUnit + settings.fixedProfit;
+  }
+};
+
+export const getPriceSuggestions = (
+  hppPerUnit: number,
+  materialsTotal: number,
+  settings: PricingSettings
+): PriceSuggestion[] => {
+  return PRICING_STRATEGIES.map(({ value: strategy }) => {
+    const price = roundPrice(priceFor(strategy, hppPerUnit, materialsTotal, settings), settings.rounding);
+    const profit = price - hppPerUnit;
+    return {
+      strategy,
+      price,
+      profit,
+      marginPercent: price > 0 ? (profit / price) * 100 : 0,
+    };
+  });
+};
+
+// How the strategy's price is derived from the HPP, for the HPP explanation
+export const describePriceFormula = (
+  strategy: PricingStrategy,
+  hppPerUnit: number,
+  materialsTotal: number,
+  settings: PricingSettings
+): string => {
+  let formula: string;
+  switch (strategy) {
+    case 'margin':
+      formula = `${formatCurrency(hppPerUnit)} ÷ (1 − ${settings.marginPercent}%)`;
+      break;
+    case 'markup':
+      formula = `${formatCurrency(hppPerUnit)} × (1 + ${settings.markupPercent}%)`;
+      break;
+    case 'food_cost':
+      formula = `${formatCurrency(materialsTotal)} ÷ ${settings.foodCostPercent}%`;
+      break;
+    case 'fixed_profit':
+      formula = `${formatCurrency(hppPerUnit)} + ${formatCurrency(settings.fixedProfit)}`;
+      break;
+  }
+  if (settings.rounding === 'none') return formula;
+  const rounding = PRICE_ROUNDINGS.find(r => r.value === settings.rounding)!.label;
+  return `${formula}, dibulatkan ${rounding.charAt(0).toLowerCase()}${rounding.slice(1)}`;
+};
+
+// The strategy's own parameter, formatted for display
+export const describeStrategyParameter = (strategy: PricingStrategy, settings: PricingSettings): string => {
+  switch (strategy) {
+    case 'margin':
+      return `${settings.marginPercent}% dari harga`;
+    case 'markup':
+      return `${settings.markupPercent}% dari HPP`;
+    case 'food_cost':
+      return `bahan ${settings.foodCostPercent}% dari harga`;
+    case 'fixed_profit':
+      return `+${formatCurrency(settings.fixedProfit)}/unit`;
+  }
+};
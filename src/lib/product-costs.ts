@@ -0,0 +1,55 @@
+import type { HPPResult, Product } from '@/types';
+import { computeHPP, type HPPData } from './hpp-calculator';
+import { getAverageSellingPrice, getSoldMix, weighSoldMix } from './break-even';
+import { validateProduct } from './hpp-validation';
+
+export interface ProductCost {
+  product: Product;
+  hpp: HPPResult | null; // Null when the product cannot be costed
+  error?: string;
+  averagePrice: number | null; // From sales, null when never sold
+  soldHppPerUnit: number | null; // HPP of the variant mix that sold, the base HPP when unsold
+  realMarginPercent: number | null; // At the average selling price
+  isLoss: boolean; // Sold, or would sell, below HPP
+}
+
+// HPP for every product from a single load of the data
+export const calculateAllProductCosts = (data: HPPData): ProductCost[] => {
+  return data.products.map(product => {
+    const uncosted = (error: string): ProductCost => ({
+      product,
+      hpp: null,
+      error,
+      averagePrice: null,
+      soldHppPerUnit: null,
+      realMarginPercent: null,
+      isLoss: false,
+    });
+
+    // Invalid recipes would be costed too low, so they are not costed at all
+    const errors = validateProduct(product, data).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) return uncosted(errors.map(issue => issue.message).join('; '));
+
+    let hpp: HPPResult;
+    try {
+      hpp = computeHPP(product, data);
+    } catch (error) {
+      return uncosted((error as Error).message);
+    }
+
+    // Compare the price with the HPP of what sold, each variant at its own HPP
+    const mix = getSoldMix(hpp, data.sales);
+    const averagePrice = getAverageSellingPrice(mix);
+    const hppPerUnit = mix.length > 0 ? weighSoldMix(mix, r => r.breakdown.hppPerUnit) : hpp.breakdown.hppPerUnit;
+    return {
+      product,
+      hpp,
+      averagePrice,
+      soldHppPerUnit: hppPerUnit,
+      realMarginPercent: averagePrice !== null && averagePrice > 0
+        ? ((averagePrice - hppPerUnit) / averagePrice) * 100
+        : null,
+      isLoss: (averagePrice ?? hpp.suggestedPrice) < hppPerUnit,
+    };
+  });
+};
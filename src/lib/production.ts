@@ -0,0 +1,18 @@
+import type { Product } from '@/types';
+
+// Good units per batch once rejected pieces are taken out
+export const getEffectiveYield = (product: Product): number => {
+  return product.yieldPerBatch * (1 - (product.rejectRate ?? 0) / 100);
+};
+
+// Labor minutes behind one good unit, with batch work spread over the yield
+export const getLaborMinutesPerUnit = (product: Product): number => {
+  const effectiveYield = getEffectiveYield(product);
+  if (product.laborSteps.length > 0) {
+    return product.laborSteps.reduce(
+      (sum, step) => sum + (step.basis === 'batch' ? step.minutes / effectiveYield : step.minutes),
+      0
+    );
+  }
+  return product.laborMinutes + product.batchMinutes / effectiveYield;
+};
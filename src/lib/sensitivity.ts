@@ -0,0 +1,146 @@
+import type { Product } from '@/types';
+import { computeHPP, resolveMaterialPrice, type HPPData, type HPPOverrides } from './hpp-calculator';
+import { isOverheadInScope } from './overhead-allocation';
+
+// Drivers cannot be moved down by the whole of their value
+export const MAX_SENSITIVITY_PERCENT = 90;
+
+export interface SensitivityOutcome {
+  hppPerUnit: number;
+  marginPercent: number; // At the base selling price
+}
+
+export interface SensitivityDriver {
+  key: string;
+  label: string;
+  low: SensitivityOutcome; // Driver decreased by the percentage
+  high: SensitivityOutcome; // Driver increased by the percentage
+  impact: number; // Spread of hppPerUnit between low and high
+}
+
+export interface SensitivityResult {
+  percent: number;
+  base: SensitivityOutcome;
+  basePrice: number;
+  drivers: SensitivityDriver[]; // Largest impact first
+}
+
+// Materials used by a product, including those inside its sub-recipes
+const collectMaterialIds = (product: Product, products: Product[], seen: string[] = []): string[] => {
+  if (seen.includes(product.id)) return [];
+  return product.ingredients.flatMap(ingredient => {
+    if (!ingredient.subProductId) return [ingredient.materialId];
+    const subProduct = products.find(p => p.id === ingredient.subProductId);
+    return subProduct ? collectMaterialIds(subProduct, products, [...seen, product.id]) : [];
+  });
+};
+
+const scaleLabor = (product: Product, factor: number): Product => ({
+  ...product,
+  laborMinutes: product.laborMinutes * factor,
+  batchMinutes: product.batchMinutes * factor,
+  laborSteps: product.laborSteps.map(step => ({ ...step, minutes: step.minutes * factor })),
+});
+
+/**
+ * Reruns the HPP with each driver moved down and up by `percent`, keeping
+ * everything else at its base value. Margins are measured against the base
+ * suggested price, as if the selling price did not change.
+ */
+export const runSensitivity = (
+  product: Product,
+  data: HPPData,
+  overrides: HPPOverrides,
+  percent: number
+): SensitivityResult => {
+  const base = computeHPP(product, data, overrides);
+  const basePrice = base.suggestedPrice;
+
+  const outcome = (p: Product, d: HPPData, o: HPPOverrides): SensitivityOutcome => {
+    const hppPerUnit = computeHPP(p, d, o).breakdown.hppPerUnit;
+    return {
+      hppPerUnit,
+      marginPercent: basePrice > 0 ? ((basePrice - hppPerUnit) / basePrice) * 100 : 0,
+    };
+  };
+
+  // Each variation reruns the HPP with one driver scaled by `factor`
+  const variations: { key: string; label: string; vary: (factor: number) => SensitivityOutcome }[] = [];
+
+  const materialIds = [...new Set(collectMaterialIds(product, data.products))];
+  for (const materialId of materialIds) {
+    const material = data.materials.find(m => m.id === materialId);
+    if (!material) continue;
+    const pricePerUnit = resolveMaterialPrice(material, data, overrides);
+    variations.push({
+      key: `material:${materialId}`,
+      label: `Harga ${material.name}`,
+      vary: factor => outcome(product, data, {
+        ...overrides,
+        materialPrices: [
+          ...(overrides.materialPrices ?? []).filter(p => p.materialId !== materialId),
+          { materialId, pricePerUnit: pricePerUnit * factor },
+        ],
+      }),
+    });
+  }
+
+  variations.push({
+    key: 'labor_minutes',
+    label: 'Waktu kerja',
+    vary: factor => outcome(scaleLabor(product, factor), data, {
+      ...overrides,
+      laborMinutes: overrides.laborMinutes !== undefined ? overrides.laborMinutes * factor : undefined,
+      batchMinutes: overrides.batchMinutes !== undefined ? overrides.batchMinutes * factor : undefined,
+    }),
+  });
+
+  variations.push({
+    key: 'labor_rate',
+    label: 'Upah tenaga kerja',
+    vary: factor => outcome(product, {
+      ...data,
+      laborRates: data.laborRates.map(r => ({ ...r, wagePerHour: r.wagePerHour * factor })),
+    }, overrides),
+  });
+
+  for (const overhead of data.overheads.filter(o => isOverheadInScope(o, product))) {
+    variations.push({
+      key: `overhead:${overhead.id}`,
+      label: overhead.name,
+      vary: factor => outcome(product, {
+        ...data,
+        overheads: data.overheads.map(o => (o.id === overhead.id ? { ...o, amount: o.amount * factor } : o)),
+      }, overrides),
+    });
+  }
+
+  const monthlyProduction = overrides.monthlyProduction;
+  if (monthlyProduction !== undefined) {
+    variations.push({
+      key: 'monthly_production',
+      label: 'Produksi per bulan',
+      vary: factor => outcome(product, data, { ...overrides, monthlyProduction: monthlyProduction * factor }),
+    });
+  }
+
+  // Production moved down to zero would divide the fixed overheads by zero
+  const variation = Math.min(percent, MAX_SENSITIVITY_PERCENT);
+  const drivers = variations
+    .map(({ key, label, vary }) => {
+      const low = vary(1 - variation / 100);
+      const high = vary(1 + variation / 100);
+      return { key, label, low, high, impact: Math.abs(high.hppPerUnit - low.hppPerUnit) };
+    })
+    .sort((a, b) => b.impact - a.impact);
+
+  return {
+    percent: variation,
+    base: {
+      hppPerUnit: base.breakdown.hppPerUnit,
+      marginPercent: basePrice > 0 ? ((basePrice - base.breakdown.hppPerUnit) / basePrice) * 100 : 0,
+    },
+    basePrice,
+    drivers,
+  };
+};
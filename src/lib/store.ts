@@ -1,6 +1,45 @@
 import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '@/integrations/supabase/client';
-import type { Material, Product, ProductIngredient, Overhead, LaborRate, Sale, Unit } from '@/types';
+import type {
+  Material,
+  MaterialPriceEntry,
+  MaterialLot,
+  CostingMethod,
+  Product,
+  ProductIngredient,
+  Overhead,
+  OverheadAllocationType,
+  EquipmentAsset,
+  DepreciationMethod,
+  AllocationDriver,
+  OverheadScope,
+  LaborRate,
+  LaborStep,
+  Machine,
+  MachineEnergy,
+  MachineUsage,
+  LaborBasis,
+  ProductVariant,
+  VariantIngredientOverride,
+  Sale,
+  Bundle,
+  BundleItem,
+  BundleSale,
+  SalesChannel,
+  HPPScenario,
+  HPPSnapshot,
+  SnapshotTrigger,
+  SnapshotLine,
+  PricingSettings,
+  PricingStrategy,
+  PriceRounding,
+  Unit,
+  RecipeUnit,
+  UnitConversion,
+} from '@/types';
+import { DEFAULT_PRICING_SETTINGS } from './pricing';
+import { DEFAULT_COSTING_METHOD } from './inventory-costing';
+import { toDepreciationOverhead } from './depreciation';
 
 // Helper to get current user ID
 const getCurrentUserId = async (): Promise<string | null> => {
@@ -9,6 +48,28 @@ const getCurrentUserId = async (): Promise<string | null> => {
 };
 
 // ============ MATERIALS API ============
+interface MaterialRow {
+  id: string;
+  name: string;
+  unit: string;
+  price_per_unit: number;
+  stock_amount: number;
+  unit_conversions: UnitConversion[] | null;
+  density: number | null;
+  updated_at: string;
+}
+
+const mapMaterial = (m: MaterialRow): Material => ({
+  id: m.id,
+  name: m.name,
+  unit: m.unit as Unit,
+  pricePerUnit: m.price_per_unit,
+  stockAmount: m.stock_amount,
+  conversions: m.unit_conversions ?? [],
+  density: m.density ?? undefined,
+  updatedAt: new Date(m.updated_at),
+});
+
 export const getMaterials = async (): Promise<Material[]> => {
   const userId = await getCurrentUserId();
   if (!userId) return [];
@@ -24,14 +85,7 @@ export const getMaterials = async (): Promise<Material[]> => {
     return [];
   }
 
-  return (data || []).map(m => ({
-    id: m.id,
-    name: m.name,
-    unit: m.unit as Unit,
-    pricePerUnit: m.price_per_unit,
-    stockAmount: m.stock_amount,
-    updatedAt: new Date(m.updated_at),
-  }));
+  return (data || []).map(mapMaterial);
 };
 
 export const addMaterial = async (material: Omit<Material, 'id' | 'updatedAt'>): Promise<Material | null> => {
@@ -47,6 +101,8 @@ export const addMaterial = async (material: Omit<Material, 'id' | 'updatedAt'>):
       unit: material.unit,
       price_per_unit: material.pricePerUnit,
       stock_amount: material.stockAmount,
+      unit_conversions: material.conversions,
+      density: material.density ?? null,
     })
     .select()
     .single();
@@ -56,14 +112,7 @@ export const addMaterial = async (material: Omit<Material, 'id' | 'updatedAt'>):
     return null;
   }
 
-  return {
-    id: data.id,
-    name: data.name,
-    unit: data.unit as Unit,
-    pricePerUnit: data.price_per_unit,
-    stockAmount: data.stock_amount,
-    updatedAt: new Date(data.updated_at),
-  };
+  return mapMaterial(data);
 };
 
 export const updateMaterial = async (id: string, updates: Partial<Material>): Promise<Material | null> => {
@@ -72,6 +121,8 @@ export const updateMaterial = async (id: string, updates: Partial<Material>): Pr
   if (updates.unit !== undefined) updateData.unit = updates.unit;
   if (updates.pricePerUnit !== undefined) updateData.price_per_unit = updates.pricePerUnit;
   if (updates.stockAmount !== undefined) updateData.stock_amount = updates.stockAmount;
+  if (updates.conversions !== undefined) updateData.unit_conversions = updates.conversions;
+  if ('density' in updates) updateData.density = updates.density ?? null;
 
   const { data, error } = await supabase
     .from('materials')
@@ -85,17 +136,12 @@ export const updateMaterial = async (id: string, updates: Partial<Material>): Pr
     return null;
   }
 
-  return {
-    id: data.id,
-    name: data.name,
-    unit: data.unit as Unit,
-    pricePerUnit: data.price_per_unit,
-    stockAmount: data.stock_amount,
-    updatedAt: new Date(data.updated_at),
-  };
+  return mapMaterial(data);
 };
 
 export const deleteMaterial = async (id: string): Promise<boolean> => {
+  await supabase.from('material_prices').delete().eq('material_id', id);
+  await supabase.from('material_lots').delete().eq('material_id', id);
   const { error } = await supabase.from('materials').delete().eq('id', id);
   if (error) {
     console.error('Error deleting material:', error);
@@ -104,7 +150,332 @@ export const deleteMaterial = async (id: string): Promise<boolean> => {
   return true;
 };
 
+// ============ MATERIAL PRICE HISTORY API ============
+interface MaterialPriceRow {
+  id: string;
+  material_id: string;
+  price_per_unit: number;
+  effective_date: string;
+  supplier: string | null;
+  note: string | null;
+}
+
+const mapMaterialPrice = (p: MaterialPriceRow): MaterialPriceEntry => ({
+  id: p.id,
+  materialId: p.material_id,
+  pricePerUnit: p.price_per_unit,
+  effectiveDate: new Date(p.effective_date),
+  supplier: p.supplier ?? undefined,
+  note: p.note ?? undefined,
+});
+
+// Oldest first; every material when materialId is omitted
+export const getMaterialPrices = async (materialId?: string): Promise<MaterialPriceEntry[]> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return [];
+
+  let query = supabase
+    .from('material_prices')
+    .select('*')
+    .eq('user_id', userId);
+  if (materialId) query = query.eq('material_id', materialId);
+
+  const { data, error } = await query.order('effective_date');
+
+  if (error) {
+    console.error('Error fetching material prices:', error);
+    return [];
+  }
+
+  return (data || []).map(mapMaterialPrice);
+};
+
+/**
+ * Adds a price to a material's history, then sets the material's current
+ * price to the latest entry already in effect. Backdated or future-dated
+ * entries therefore do not overwrite a newer current price.
+ */
+export const recordMaterialPrice = async (
+  entry: Omit<MaterialPriceEntry, 'id'>
+): Promise<MaterialPriceEntry | null> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return null;
+
+  const { data, error } = await supabase
+    .from('material_prices')
+    .insert({
+      id: uuidv4(),
+      user_id: userId,
+      material_id: entry.materialId,
+      price_per_unit: entry.pricePerUnit,
+      effective_date: entry.effectiveDate.toISOString(),
+      supplier: entry.supplier ?? null,
+      note: entry.note ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error recording material price:', error);
+    return null;
+  }
+
+  const { data: current } = await supabase
+    .from('material_prices')
+    .select('price_per_unit')
+    .eq('material_id', entry.materialId)
+    .lte('effective_date', new Date().toISOString())
+    .order('effective_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (current) {
+    await supabase
+      .from('materials')
+      .update({ price_per_unit: current.price_per_unit, updated_at: new Date().toISOString() })
+      .eq('id', entry.materialId);
+  }
+
+  return mapMaterialPrice(data);
+};
+
+// ============ MATERIAL LOTS API ============
+interface MaterialLotRow {
+  id: string;
+  material_id: string;
+  quantity: number;
+  unit_cost: number;
+  received_at: string;
+  supplier: string | null;
+}
+
+const mapMaterialLot = (l: MaterialLotRow): MaterialLot => ({
+  id: l.id,
+  materialId: l.material_id,
+  quantity: l.quantity,
+  unitCost: l.unit_cost,
+  receivedAt: new Date(l.received_at),
+  supplier: l.supplier ?? undefined,
+});
+
+// Oldest first; every material when materialId is omitted
+export const getMaterialLots = async (materialId?: string): Promise<MaterialLot[]> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return [];
+
+  let query = supabase
+    .from('material_lots')
+    .select('*')
+    .eq('user_id', userId);
+  if (materialId) query = query.eq('material_id', materialId);
+
+  const { data, error } = await query.order('received_at');
+
+  if (error) {
+    console.error('Error fetching material lots:', error);
+    return [];
+  }
+
+  return (data || []).map(mapMaterialLot);
+};
+
+const adjustMaterialStock = async (materialId: string, delta: number): Promise<void> => {
+  const { data } = await supabase
+    .from('materials')
+    .select('stock_amount')
+    .eq('id', materialId)
+    .single();
+  if (!data) return;
+
+  await supabase
+    .from('materials')
+    .update({ stock_amount: Math.max(0, data.stock_amount + delta) })
+    .eq('id', materialId);
+};
+
+// Records received stock: adds the lot, raises the stock amount and logs the
+// lot's cost in the material's price history
+export const receiveMaterialLot = async (lot: Omit<MaterialLot, 'id'>): Promise<MaterialLot | null> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return null;
+
+  const { data, error } = await supabase
+    .from('material_lots')
+    .insert({
+      id: uuidv4(),
+      user_id: userId,
+      material_id: lot.materialId,
+      quantity: lot.quantity,
+      unit_cost: lot.unitCost,
+      received_at: lot.receivedAt.toISOString(),
+      supplier: lot.supplier ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error receiving material lot:', error);
+    return null;
+  }
+
+  await adjustMaterialStock(lot.materialId, lot.quantity);
+  await recordMaterialPrice({
+    materialId: lot.materialId,
+    pricePerUnit: lot.unitCost,
+    effectiveDate: lot.receivedAt,
+    supplier: lot.supplier,
+  });
+
+  return mapMaterialLot(data);
+};
+
+// Removes a lot entered by mistake and takes its quantity back out of stock
+export const deleteMaterialLot = async (lot: MaterialLot): Promise<boolean> => {
+  const { error } = await supabase.from('material_lots').delete().eq('id', lot.id);
+
+  if (error) {
+    console.error('Error deleting material lot:', error);
+    return false;
+  }
+
+  await adjustMaterialStock(lot.materialId, -lot.quantity);
+  return true;
+};
+
 // ============ PRODUCTS API ============
+interface IngredientRow {
+  id: string;
+  material_id: string | null;
+  sub_product_id: string | null;
+  quantity: number;
+  unit: string | null;
+  waste_percent: number | null;
+}
+
+const mapIngredient = (i: IngredientRow): ProductIngredient => ({
+  id: i.id,
+  materialId: i.material_id ?? '',
+  subProductId: i.sub_product_id ?? undefined,
+  quantity: i.quantity,
+  unit: (i.unit as RecipeUnit) ?? undefined,
+  wastePercent: i.waste_percent ?? undefined,
+});
+
+const toIngredientRows = (productId: string, ingredients: ProductIngredient[]) =>
+  ingredients.map(i => ({
+    id: uuidv4(),
+    product_id: productId,
+    material_id: i.subProductId ? null : i.materialId,
+    sub_product_id: i.subProductId ?? null,
+    quantity: i.quantity,
+    unit: i.unit ?? null,
+    waste_percent: i.wastePercent ?? null,
+  }));
+
+interface LaborStepRow {
+  id: string;
+  name: string;
+  minutes: number;
+  basis: string | null;
+  labor_rate_id: string;
+  sort_order: number;
+}
+
+const mapLaborStep = (r: LaborStepRow): LaborStep => ({
+  id: r.id,
+  name: r.name,
+  minutes: r.minutes,
+  basis: (r.basis as LaborBasis) ?? 'unit',
+  laborRateId: r.labor_rate_id,
+});
+
+const toLaborStepRows = (productId: string, steps: LaborStep[]) =>
+  steps.map((step, index) => ({
+    id: uuidv4(),
+    product_id: productId,
+    name: step.name,
+    minutes: step.minutes,
+    basis: step.basis,
+    labor_rate_id: step.laborRateId,
+    sort_order: index,
+  }));
+
+interface VariantRow {
+  id: string;
+  name: string;
+  scale_factor: number;
+  ingredient_overrides: VariantIngredientOverride[] | null;
+  extra_ingredients: ProductIngredient[] | null;
+  extra_labor_minutes: number | null;
+  sort_order: number;
+}
+
+const mapVariant = (v: VariantRow): ProductVariant => ({
+  id: v.id,
+  name: v.name,
+  scaleFactor: v.scale_factor,
+  ingredientOverrides: (v.ingredient_overrides || []).map(o => ({
+    materialId: o.materialId ?? '',
+    subProductId: o.subProductId ?? undefined,
+    quantity: o.quantity,
+  })),
+  extraIngredients: v.extra_ingredients || [],
+  extraLaborMinutes: v.extra_labor_minutes ?? 0,
+});
+
+// Variant ids are kept, since sales refer to them
+const toVariantRows = (productId: string, variants: ProductVariant[]) =>
+  variants.map((v, index) => ({
+    id: v.id,
+    product_id: productId,
+    name: v.name,
+    scale_factor: v.scaleFactor,
+    ingredient_overrides: v.ingredientOverrides,
+    extra_ingredients: v.extraIngredients,
+    extra_labor_minutes: v.extraLaborMinutes,
+    sort_order: index,
+  }));
+
+interface ProductRow {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  yield_per_batch: number;
+  yield_unit: string | null;
+  reject_rate: number | null;
+  labor_minutes: number;
+  batch_minutes: number | null;
+  product_ingredients?: IngredientRow[];
+  product_labor_steps?: LaborStepRow[];
+  product_variants?: VariantRow[];
+  machine_usages: MachineUsage[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const mapProduct = (p: ProductRow): Product => ({
+  id: p.id,
+  name: p.name,
+  description: p.description || '',
+  category: p.category || '',
+  yieldPerBatch: p.yield_per_batch,
+  yieldUnit: (p.yield_unit as Unit) ?? undefined,
+  rejectRate: p.reject_rate ?? undefined,
+  laborMinutes: p.labor_minutes,
+  batchMinutes: p.batch_minutes ?? 0,
+  ingredients: (p.product_ingredients || []).map(mapIngredient),
+  laborSteps: [...(p.product_labor_steps || [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(mapLaborStep),
+  machineUsages: p.machine_usages ?? [],
+  variants: [...(p.product_variants || [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(mapVariant),
+  createdAt: new Date(p.created_at),
+  updatedAt: new Date(p.updated_at),
+});
+
 export const getProducts = async (): Promise<Product[]> => {
   const userId = await getCurrentUserId();
   if (!userId) return [];
@@ -113,7 +484,9 @@ export const getProducts = async (): Promise<Product[]> => {
     .from('products')
     .select(`
       *,
-      product_ingredients (*)
+      product_ingredients (*),
+      product_labor_steps (*),
+      product_variants (*)
     `)
     .eq('user_id', userId)
     .order('name');
@@ -123,20 +496,7 @@ export const getProducts = async (): Promise<Product[]> => {
     return [];
   }
 
-  return (products || []).map(p => ({
-    id: p.id,
-    name: p.name,
-    description: p.description || '',
-    yieldPerBatch: p.yield_per_batch,
-    laborMinutes: p.labor_minutes,
-    ingredients: (p.product_ingredients || []).map((i: { id: string; material_id: string; quantity: number }) => ({
-      id: i.id,
-      materialId: i.material_id,
-      quantity: i.quantity,
-    })),
-    createdAt: new Date(p.created_at),
-    updatedAt: new Date(p.updated_at),
-  }));
+  return (products || []).map(mapProduct);
 };
 
 export const addProduct = async (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>): Promise<Product | null> => {
@@ -152,8 +512,13 @@ export const addProduct = async (product: Omit<Product, 'id' | 'createdAt' | 'up
       user_id: userId,
       name: product.name,
       description: product.description,
+      category: product.category,
       yield_per_batch: product.yieldPerBatch,
+      yield_unit: product.yieldUnit ?? null,
+      reject_rate: product.rejectRate ?? null,
       labor_minutes: product.laborMinutes,
+      batch_minutes: product.batchMinutes,
+      machine_usages: product.machineUsages,
     })
     .select()
     .single();
@@ -165,24 +530,41 @@ export const addProduct = async (product: Omit<Product, 'id' | 'createdAt' | 'up
 
   // Insert ingredients
   if (product.ingredients && product.ingredients.length > 0) {
-    const ingredients = product.ingredients.map(i => ({
-      id: uuidv4(),
-      product_id: productId,
-      material_id: i.materialId,
-      quantity: i.quantity,
-    }));
+    const ingredients = toIngredientRows(productId, product.ingredients);
 
     const { error: ingError } = await supabase.from('product_ingredients').insert(ingredients);
     if (ingError) console.error('Error adding ingredients:', ingError);
   }
 
+  // Insert labor routing
+  if (product.laborSteps && product.laborSteps.length > 0) {
+    const { error: stepError } = await supabase
+      .from('product_labor_steps')
+      .insert(toLaborStepRows(productId, product.laborSteps));
+    if (stepError) console.error('Error adding labor steps:', stepError);
+  }
+
+  if (product.variants && product.variants.length > 0) {
+    const { error: variantError } = await supabase
+      .from('product_variants')
+      .insert(toVariantRows(productId, product.variants));
+    if (variantError) console.error('Error adding variants:', variantError);
+  }
+
   return {
     id: data.id,
     name: data.name,
     description: data.description || '',
+    category: data.category || '',
     yieldPerBatch: data.yield_per_batch,
+    yieldUnit: (data.yield_unit as Unit) ?? undefined,
+    rejectRate: data.reject_rate ?? undefined,
     laborMinutes: data.labor_minutes,
+    batchMinutes: data.batch_minutes ?? 0,
     ingredients: product.ingredients || [],
+    laborSteps: product.laborSteps || [],
+    machineUsages: product.machineUsages || [],
+    variants: product.variants || [],
     createdAt: new Date(data.created_at),
     updatedAt: new Date(data.updated_at),
   };
@@ -192,8 +574,13 @@ export const updateProduct = async (id: string, updates: Partial<Product>): Prom
   const updateData: Record<string, unknown> = {};
   if (updates.name !== undefined) updateData.name = updates.name;
   if (updates.description !== undefined) updateData.description = updates.description;
+  if (updates.category !== undefined) updateData.category = updates.category;
   if (updates.yieldPerBatch !== undefined) updateData.yield_per_batch = updates.yieldPerBatch;
+  if ('yieldUnit' in updates) updateData.yield_unit = updates.yieldUnit ?? null;
+  if ('rejectRate' in updates) updateData.reject_rate = updates.rejectRate ?? null;
   if (updates.laborMinutes !== undefined) updateData.labor_minutes = updates.laborMinutes;
+  if (updates.batchMinutes !== undefined) updateData.batch_minutes = updates.batchMinutes;
+  if (updates.machineUsages !== undefined) updateData.machine_usages = updates.machineUsages;
 
   const { data, error } = await supabase
     .from('products')
@@ -214,44 +601,46 @@ export const updateProduct = async (id: string, updates: Partial<Product>): Prom
 
     // Insert new ingredients
     if (updates.ingredients.length > 0) {
-      const ingredients = updates.ingredients.map(i => ({
-        id: uuidv4(),
-        product_id: id,
-        material_id: i.materialId,
-        quantity: i.quantity,
-      }));
+      const ingredients = toIngredientRows(id, updates.ingredients);
       await supabase.from('product_ingredients').insert(ingredients);
     }
   }
 
+  // Replace labor routing if provided
+  if (updates.laborSteps) {
+    await supabase.from('product_labor_steps').delete().eq('product_id', id);
+
+    if (updates.laborSteps.length > 0) {
+      await supabase.from('product_labor_steps').insert(toLaborStepRows(id, updates.laborSteps));
+    }
+  }
+
+  if (updates.variants) {
+    await supabase.from('product_variants').delete().eq('product_id', id);
+
+    if (updates.variants.length > 0) {
+      await supabase.from('product_variants').insert(toVariantRows(id, updates.variants));
+    }
+  }
+
   // Fetch updated product with ingredients
   const { data: updated } = await supabase
     .from('products')
-    .select(`*, product_ingredients (*)`)
+    .select(`*, product_ingredients (*), product_labor_steps (*), product_variants (*)`)
     .eq('id', id)
     .single();
 
   if (!updated) return null;
 
-  return {
-    id: updated.id,
-    name: updated.name,
-    description: updated.description || '',
-    yieldPerBatch: updated.yield_per_batch,
-    laborMinutes: updated.labor_minutes,
-    ingredients: (updated.product_ingredients || []).map((i: { id: string; material_id: string; quantity: number }) => ({
-      id: i.id,
-      materialId: i.material_id,
-      quantity: i.quantity,
-    })),
-    createdAt: new Date(updated.created_at),
-    updatedAt: new Date(updated.updated_at),
-  };
+  return mapProduct(updated);
 };
 
 export const deleteProduct = async (id: string): Promise<boolean> => {
   // Delete ingredients first (cascade should handle this, but just in case)
   await supabase.from('product_ingredients').delete().eq('product_id', id);
+  await supabase.from('product_labor_steps').delete().eq('product_id', id);
+  await supabase.from('product_variants').delete().eq('product_id', id);
+  await supabase.from('bundle_items').delete().eq('product_id', id);
 
   const { error } = await supabase.from('products').delete().eq('id', id);
   if (error) {
@@ -261,7 +650,238 @@ export const deleteProduct = async (id: string): Promise<boolean> => {
   return true;
 };
 
+// ============ BUNDLES API ============
+interface BundleItemRow {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  sort_order: number;
+}
+
+const mapBundleItem = (i: BundleItemRow): BundleItem => ({
+  id: i.id,
+  productId: i.product_id,
+  variantId: i.variant_id ?? undefined,
+  quantity: i.quantity,
+});
+
+const toBundleItemRows = (bundleId: string, items: BundleItem[]) =>
+  items.map((item, index) => ({
+    id: uuidv4(),
+    bundle_id: bundleId,
+    product_id: item.productId,
+    variant_id: item.variantId ?? null,
+    quantity: item.quantity,
+    sort_order: index,
+  }));
+
+interface BundleRow {
+  id: string;
+  name: string;
+  description: string | null;
+  packaging: ProductIngredient[] | null;
+  discount_percent: number | null;
+  bundle_items?: BundleItemRow[];
+  created_at: string;
+  updated_at: string;
+}
+
+const mapBundle = (b: BundleRow): Bundle => ({
+  id: b.id,
+  name: b.name,
+  description: b.description || '',
+  items: [...(b.bundle_items || [])]
+    .sort((x, y) => x.sort_order - y.sort_order)
+    .map(mapBundleItem),
+  packaging: b.packaging || [],
+  discountPercent: b.discount_percent ?? 0,
+  createdAt: new Date(b.created_at),
+  updatedAt: new Date(b.updated_at),
+});
+
+export const getBundles = async (): Promise<Bundle[]> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return [];
+
+  const { data, error } = await supabase
+    .from('bundles')
+    .select('*, bundle_items (*)')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching bundles:', error);
+    return [];
+  }
+
+  return (data || []).map(mapBundle);
+};
+
+export const addBundle = async (bundle: Omit<Bundle, 'id' | 'createdAt' | 'updatedAt'>): Promise<Bundle | null> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return null;
+
+  const bundleId = uuidv4();
+
+  const { data, error } = await supabase
+    .from('bundles')
+    .insert({
+      id: bundleId,
+      user_id: userId,
+      name: bundle.name,
+      description: bundle.description,
+      packaging: bundle.packaging,
+      discount_percent: bundle.discountPercent,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding bundle:', error);
+    return null;
+  }
+
+  if (bundle.items.length > 0) {
+    const { error: itemError } = await supabase
+      .from('bundle_items')
+      .insert(toBundleItemRows(bundleId, bundle.items));
+    if (itemError) console.error('Error adding bundle items:', itemError);
+  }
+
+  return mapBundle({ ...data, bundle_items: toBundleItemRows(bundleId, bundle.items) });
+};
+
+export const updateBundle = async (id: string, updates: Partial<Bundle>): Promise<Bundle | null> => {
+  const updateData: Record<string, unknown> = {};
+  if (updates.name !== undefined) updateData.name = updates.name;
+  if (updates.description !== undefined) updateData.description = updates.description;
+  if (updates.packaging !== undefined) updateData.packaging = updates.packaging;
+  if (updates.discountPercent !== undefined) updateData.discount_percent = updates.discountPercent;
+
+  const { error } = await supabase
+    .from('bundles')
+    .update(updateData)
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating bundle:', error);
+    return null;
+  }
+
+  if (updates.items) {
+    await supabase.from('bundle_items').delete().eq('bundle_id', id);
+
+    if (updates.items.length > 0) {
+      await supabase.from('bundle_items').insert(toBundleItemRows(id, updates.items));
+    }
+  }
+
+  const { data: updated } = await supabase
+    .from('bundles')
+    .select('*, bundle_items (*)')
+    .eq('id', id)
+    .single();
+
+  if (!updated) return null;
+
+  return mapBundle(updated);
+};
+
+export const deleteBundle = async (id: string): Promise<boolean> => {
+  await supabase.from('bundle_items').delete().eq('bundle_id', id);
+  await supabase.from('bundle_sales').delete().eq('bundle_id', id);
+
+  const { error } = await supabase.from('bundles').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting bundle:', error);
+    return false;
+  }
+  return true;
+};
+
+interface BundleSaleRow {
+  id: string;
+  bundle_id: string;
+  quantity: number;
+  unit_price: number;
+  sold_at: string;
+}
+
+const mapBundleSale = (s: BundleSaleRow): BundleSale => ({
+  id: s.id,
+  bundleId: s.bundle_id,
+  quantity: s.quantity,
+  unitPrice: s.unit_price,
+  soldAt: new Date(s.sold_at),
+});
+
+export const getBundleSales = async (): Promise<BundleSale[]> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return [];
+
+  const { data, error } = await supabase
+    .from('bundle_sales')
+    .select('*')
+    .eq('user_id', userId)
+    .order('sold_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching bundle sales:', error);
+    return [];
+  }
+
+  return (data || []).map(mapBundleSale);
+};
+
+export const addBundleSale = async (sale: Omit<BundleSale, 'id'>): Promise<BundleSale | null> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return null;
+
+  const { data, error } = await supabase
+    .from('bundle_sales')
+    .insert({
+      id: uuidv4(),
+      user_id: userId,
+      bundle_id: sale.bundleId,
+      quantity: sale.quantity,
+      unit_price: sale.unitPrice,
+      sold_at: sale.soldAt.toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding bundle sale:', error);
+    return null;
+  }
+
+  return mapBundleSale(data);
+};
+
 // ============ OVERHEADS API ============
+interface OverheadRow {
+  id: string;
+  name: string;
+  amount: number;
+  allocation_type: string;
+  allocation_driver: string | null;
+  scope: string | null;
+  product_ids: string[] | null;
+  category: string | null;
+}
+
+const mapOverhead = (o: OverheadRow): Overhead => ({
+  id: o.id,
+  name: o.name,
+  amount: o.amount,
+  allocationType: o.allocation_type as OverheadAllocationType,
+  allocationDriver: (o.allocation_driver as AllocationDriver) ?? 'flat',
+  scope: (o.scope as OverheadScope) ?? 'all',
+  productIds: o.product_ids ?? [],
+  category: o.category ?? undefined,
+});
+
 export const getOverheads = async (): Promise<Overhead[]> => {
   const userId = await getCurrentUserId();
   if (!userId) return [];
@@ -277,12 +897,11 @@ export const getOverheads = async (): Promise<Overhead[]> => {
     return [];
   }
 
-  return (data || []).map(o => ({
-    id: o.id,
-    name: o.name,
-    amount: o.amount,
-    allocationType: o.allocation_type as 'fixed' | 'per_unit' | 'percentage',
-  }));
+  // Equipment depreciation for the current month, charged like any fixed overhead
+  const assets = await getEquipmentAssets();
+  const depreciation = assets.map(asset => toDepreciationOverhead(asset)).filter(o => o.amount > 0);
+
+  return [...(data || []).map(mapOverhead), ...depreciation];
 };
 
 export const addOverhead = async (overhead: Omit<Overhead, 'id'>): Promise<Overhead | null> => {
@@ -297,6 +916,10 @@ export const addOverhead = async (overhead: Omit<Overhead, 'id'>): Promise<Overh
       name: overhead.name,
       amount: overhead.amount,
       allocation_type: overhead.allocationType,
+      allocation_driver: overhead.allocationDriver,
+      scope: overhead.scope,
+      product_ids: overhead.productIds,
+      category: overhead.category ?? null,
     })
     .select()
     .single();
@@ -306,12 +929,7 @@ export const addOverhead = async (overhead: Omit<Overhead, 'id'>): Promise<Overh
     return null;
   }
 
-  return {
-    id: data.id,
-    name: data.name,
-    amount: data.amount,
-    allocationType: data.allocation_type as 'fixed' | 'per_unit' | 'percentage',
-  };
+  return mapOverhead(data);
 };
 
 export const updateOverhead = async (id: string, updates: Partial<Overhead>): Promise<Overhead | null> => {
@@ -319,6 +937,10 @@ export const updateOverhead = async (id: string, updates: Partial<Overhead>): Pr
   if (updates.name !== undefined) updateData.name = updates.name;
   if (updates.amount !== undefined) updateData.amount = updates.amount;
   if (updates.allocationType !== undefined) updateData.allocation_type = updates.allocationType;
+  if (updates.allocationDriver !== undefined) updateData.allocation_driver = updates.allocationDriver;
+  if (updates.scope !== undefined) updateData.scope = updates.scope;
+  if (updates.productIds !== undefined) updateData.product_ids = updates.productIds;
+  if ('category' in updates) updateData.category = updates.category ?? null;
 
   const { data, error } = await supabase
     .from('overheads')
@@ -332,12 +954,7 @@ export const updateOverhead = async (id: string, updates: Partial<Overhead>): Pr
     return null;
   }
 
-  return {
-    id: data.id,
-    name: data.name,
-    amount: data.amount,
-    allocationType: data.allocation_type as 'fixed' | 'per_unit' | 'percentage',
-  };
+  return mapOverhead(data);
 };
 
 export const deleteOverhead = async (id: string): Promise<boolean> => {
@@ -349,6 +966,113 @@ export const deleteOverhead = async (id: string): Promise<boolean> => {
   return true;
 };
 
+// ============ EQUIPMENT ASSETS API ============
+interface EquipmentAssetRow {
+  id: string;
+  name: string;
+  purchase_price: number;
+  purchase_date: string;
+  useful_life_years: number;
+  salvage_value: number | null;
+  method: string | null;
+  allocation_driver: string | null;
+  product_ids: string[] | null;
+}
+
+const mapEquipmentAsset = (a: EquipmentAssetRow): EquipmentAsset => ({
+  id: a.id,
+  name: a.name,
+  purchasePrice: a.purchase_price,
+  purchaseDate: new Date(a.purchase_date),
+  usefulLifeYears: a.useful_life_years,
+  salvageValue: a.salvage_value ?? 0,
+  method: (a.method as DepreciationMethod) ?? 'straight_line',
+  allocationDriver: (a.allocation_driver as AllocationDriver) ?? 'flat',
+  productIds: a.product_ids ?? [],
+});
+
+export const getEquipmentAssets = async (): Promise<EquipmentAsset[]> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return [];
+
+  const { data, error } = await supabase
+    .from('equipment_assets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching equipment assets:', error);
+    return [];
+  }
+
+  return (data || []).map(mapEquipmentAsset);
+};
+
+export const addEquipmentAsset = async (asset: Omit<EquipmentAsset, 'id'>): Promise<EquipmentAsset | null> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return null;
+
+  const { data, error } = await supabase
+    .from('equipment_assets')
+    .insert({
+      id: uuidv4(),
+      user_id: userId,
+      name: asset.name,
+      purchase_price: asset.purchasePrice,
+      purchase_date: asset.purchaseDate.toISOString(),
+      useful_life_years: asset.usefulLifeYears,
+      salvage_value: asset.salvageValue,
+      method: asset.method,
+      allocation_driver: asset.allocationDriver,
+      product_ids: asset.productIds,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding equipment asset:', error);
+    return null;
+  }
+
+  return mapEquipmentAsset(data);
+};
+
+export const updateEquipmentAsset = async (id: string, updates: Partial<EquipmentAsset>): Promise<EquipmentAsset | null> => {
+  const updateData: Record<string, unknown> = {};
+  if (updates.name !== undefined) updateData.name = updates.name;
+  if (updates.purchasePrice !== undefined) updateData.purchase_price = updates.purchasePrice;
+  if (updates.purchaseDate !== undefined) updateData.purchase_date = updates.purchaseDate.toISOString();
+  if (updates.usefulLifeYears !== undefined) updateData.useful_life_years = updates.usefulLifeYears;
+  if (updates.salvageValue !== undefined) updateData.salvage_value = updates.salvageValue;
+  if (updates.method !== undefined) updateData.method = updates.method;
+  if (updates.allocationDriver !== undefined) updateData.allocation_driver = updates.allocationDriver;
+  if (updates.productIds !== undefined) updateData.product_ids = updates.productIds;
+
+  const { data, error } = await supabase
+    .from('equipment_assets')
+    .update(updateData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating equipment asset:', error);
+    return null;
+  }
+
+  return mapEquipmentAsset(data);
+};
+
+export const deleteEquipmentAsset = async (id: string): Promise<boolean> => {
+  const { error } = await supabase.from('equipment_assets').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting equipment asset:', error);
+    return false;
+  }
+  return true;
+};
+
 // ============ LABOR RATES API ============
 export const getLaborRates = async (): Promise<LaborRate[]> => {
   const userId = await getCurrentUserId();
@@ -390,6 +1114,367 @@ export const saveLaborRates = async (rates: LaborRate[]): Promise<void> => {
   }
 };
 
+// ============ MACHINES API ============
+export const getMachines = async (): Promise<Machine[]> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return [];
+
+  const { data, error } = await supabase
+    .from('machines')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching machines:', error);
+    return [];
+  }
+
+  return (data || []).map(m => ({
+    id: m.id,
+    name: m.name,
+    energy: (m.energy as MachineEnergy) ?? 'electric',
+    powerKw: m.power_kw ?? 0,
+    tariffPerKwh: m.tariff_per_kwh ?? 0,
+    cylinderPrice: m.cylinder_price ?? 0,
+    cylinderMinutes: m.cylinder_minutes ?? 0,
+  }));
+};
+
+// Ids are kept, since products refer to their machines
+export const saveMachines = async (machines: Machine[]): Promise<void> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return;
+
+  await supabase.from('machines').delete().eq('user_id', userId);
+
+  if (machines.length > 0) {
+    await supabase.from('machines').insert(machines.map(m => ({
+      id: m.id || uuidv4(),
+      user_id: userId,
+      name: m.name,
+      energy: m.energy,
+      power_kw: m.powerKw,
+      tariff_per_kwh: m.tariffPerKwh,
+      cylinder_price: m.cylinderPrice,
+      cylinder_minutes: m.cylinderMinutes,
+    })));
+  }
+};
+
+// ============ SALES CHANNELS API ============
+export const getSalesChannels = async (): Promise<SalesChannel[]> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return [];
+
+  const { data, error } = await supabase
+    .from('sales_channels')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching sales channels:', error);
+    return [];
+  }
+
+  return (data || []).map(c => ({
+    id: c.id,
+    name: c.name,
+    commissionPercent: c.commission_percent ?? 0,
+    fixedFee: c.fixed_fee ?? 0,
+    taxPercent: c.tax_percent ?? 0,
+    taxIncluded: c.tax_included ?? true,
+  }));
+};
+
+export const saveSalesChannels = async (channels: SalesChannel[]): Promise<void> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return;
+
+  // Delete all existing channels for this user and insert new ones
+  await supabase.from('sales_channels').delete().eq('user_id', userId);
+
+  if (channels.length > 0) {
+    const newChannels = channels.map(c => ({
+      id: c.id || uuidv4(),
+      user_id: userId,
+      name: c.name,
+      commission_percent: c.commissionPercent,
+      fixed_fee: c.fixedFee,
+      tax_percent: c.taxPercent,
+      tax_included: c.taxIncluded,
+    }));
+    await supabase.from('sales_channels').insert(newChannels);
+  }
+};
+
+// ============ PRICING SETTINGS API ============
+// One row per user; missing values fall back to the defaults
+export const getPricingSettings = async (): Promise<PricingSettings> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return DEFAULT_PRICING_SETTINGS;
+
+  const { data, error } = await supabase
+    .from('pricing_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching pricing settings:', error);
+    return DEFAULT_PRICING_SETTINGS;
+  }
+  if (!data) return DEFAULT_PRICING_SETTINGS;
+
+  return {
+    strategy: (data.strategy as PricingStrategy) ?? DEFAULT_PRICING_SETTINGS.strategy,
+    marginPercent: data.margin_percent ?? DEFAULT_PRICING_SETTINGS.marginPercent,
+    markupPercent: data.markup_percent ?? DEFAULT_PRICING_SETTINGS.markupPercent,
+    foodCostPercent: data.food_cost_percent ?? DEFAULT_PRICING_SETTINGS.foodCostPercent,
+    fixedProfit: data.fixed_profit ?? DEFAULT_PRICING_SETTINGS.fixedProfit,
+    rounding: (data.rounding as PriceRounding) ?? DEFAULT_PRICING_SETTINGS.rounding,
+  };
+};
+
+export const savePricingSettings = async (settings: PricingSettings): Promise<boolean> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return false;
+
+  const { error } = await supabase
+    .from('pricing_settings')
+    .upsert({
+      user_id: userId,
+      strategy: settings.strategy,
+      margin_percent: settings.marginPercent,
+      markup_percent: settings.markupPercent,
+      food_cost_percent: settings.foodCostPercent,
+      fixed_profit: settings.fixedProfit,
+      rounding: settings.rounding,
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error saving pricing settings:', error);
+    return false;
+  }
+  return true;
+};
+
+// ============ COSTING SETTINGS API ============
+export const getCostingMethod = async (): Promise<CostingMethod> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return DEFAULT_COSTING_METHOD;
+
+  const { data, error } = await supabase
+    .from('costing_settings')
+    .select('costing_method')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching costing settings:', error);
+    return DEFAULT_COSTING_METHOD;
+  }
+
+  return (data?.costing_method as CostingMethod) ?? DEFAULT_COSTING_METHOD;
+};
+
+export const saveCostingMethod = async (method: CostingMethod): Promise<boolean> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return false;
+
+  const { error } = await supabase
+    .from('costing_settings')
+    .upsert({ user_id: userId, costing_method: method }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error saving costing settings:', error);
+    return false;
+  }
+  return true;
+};
+
+// ============ HPP SCENARIOS API ============
+interface ScenarioRow {
+  id: string;
+  name: string;
+  material_prices: { materialId: string; pricePerUnit: number }[] | null;
+  labor_minutes: number | null;
+  batch_minutes: number | null;
+  labor_rate_id: string | null;
+  margin_percent: number | null;
+  monthly_production: number | null;
+  updated_at: string;
+}
+
+const mapScenario = (s: ScenarioRow): HPPScenario => ({
+  id: s.id,
+  name: s.name,
+  materialPrices: s.material_prices ?? [],
+  laborMinutes: s.labor_minutes ?? undefined,
+  batchMinutes: s.batch_minutes ?? undefined,
+  laborRateId: s.labor_rate_id ?? undefined,
+  marginPercent: s.margin_percent ?? undefined,
+  monthlyProduction: s.monthly_production ?? undefined,
+  updatedAt: new Date(s.updated_at),
+});
+
+const toScenarioRow = (scenario: Omit<HPPScenario, 'id' | 'updatedAt'>) => ({
+  name: scenario.name,
+  material_prices: scenario.materialPrices,
+  labor_minutes: scenario.laborMinutes ?? null,
+  batch_minutes: scenario.batchMinutes ?? null,
+  labor_rate_id: scenario.laborRateId ?? null,
+  margin_percent: scenario.marginPercent ?? null,
+  monthly_production: scenario.monthlyProduction ?? null,
+  updated_at: new Date().toISOString(),
+});
+
+export const getScenarios = async (): Promise<HPPScenario[]> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return [];
+
+  const { data, error } = await supabase
+    .from('hpp_scenarios')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching scenarios:', error);
+    return [];
+  }
+
+  return (data || []).map(mapScenario);
+};
+
+export const addScenario = async (scenario: Omit<HPPScenario, 'id' | 'updatedAt'>): Promise<HPPScenario | null> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return null;
+
+  const { data, error } = await supabase
+    .from('hpp_scenarios')
+    .insert({
+      id: uuidv4(),
+      user_id: userId,
+      ...toScenarioRow(scenario),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding scenario:', error);
+    return null;
+  }
+
+  return mapScenario(data);
+};
+
+// Scenarios are always saved whole, so every field is replaced
+export const updateScenario = async (
+  id: string,
+  scenario: Omit<HPPScenario, 'id' | 'updatedAt'>
+): Promise<HPPScenario | null> => {
+  const { data, error } = await supabase
+    .from('hpp_scenarios')
+    .update(toScenarioRow(scenario))
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating scenario:', error);
+    return null;
+  }
+
+  return mapScenario(data);
+};
+
+export const deleteScenario = async (id: string): Promise<boolean> => {
+  const { error } = await supabase.from('hpp_scenarios').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting scenario:', error);
+    return false;
+  }
+  return true;
+};
+
+// ============ HPP SNAPSHOTS API ============
+interface SnapshotRow {
+  id: string;
+  product_id: string;
+  computed_at: string;
+  trigger: string;
+  hpp_per_unit: number;
+  materials_total: number;
+  labor_cost: number;
+  overhead_cost: number;
+  suggested_price: number;
+  lines: SnapshotLine[] | null;
+}
+
+const mapSnapshot = (s: SnapshotRow): HPPSnapshot => ({
+  id: s.id,
+  productId: s.product_id,
+  computedAt: new Date(s.computed_at),
+  trigger: s.trigger as SnapshotTrigger,
+  hppPerUnit: s.hpp_per_unit,
+  materialsTotal: s.materials_total,
+  laborCost: s.labor_cost,
+  overheadCost: s.overhead_cost,
+  suggestedPrice: s.suggested_price,
+  lines: s.lines ?? [],
+});
+
+// Oldest first; all products when productId is omitted
+export const getSnapshots = async (productId?: string): Promise<HPPSnapshot[]> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return [];
+
+  let query = supabase
+    .from('hpp_snapshots')
+    .select('*')
+    .eq('user_id', userId);
+  if (productId) query = query.eq('product_id', productId);
+
+  const { data, error } = await query.order('computed_at');
+
+  if (error) {
+    console.error('Error fetching snapshots:', error);
+    return [];
+  }
+
+  return (data || []).map(mapSnapshot);
+};
+
+export const addSnapshots = async (snapshots: Omit<HPPSnapshot, 'id'>[]): Promise<boolean> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return false;
+  if (snapshots.length === 0) return true;
+
+  const { error } = await supabase.from('hpp_snapshots').insert(
+    snapshots.map(s => ({
+      id: uuidv4(),
+      user_id: userId,
+      product_id: s.productId,
+      computed_at: s.computedAt.toISOString(),
+      trigger: s.trigger,
+      hpp_per_unit: s.hppPerUnit,
+      materials_total: s.materialsTotal,
+      labor_cost: s.laborCost,
+      overhead_cost: s.overheadCost,
+      suggested_price: s.suggestedPrice,
+      lines: s.lines,
+    }))
+  );
+
+  if (error) {
+    console.error('Error adding snapshots:', error);
+    return false;
+  }
+  return true;
+};
+
 // ============ SALES API ============
 export const getSales = async (): Promise<Sale[]> => {
   const userId = await getCurrentUserId();
@@ -409,6 +1494,7 @@ export const getSales = async (): Promise<Sale[]> => {
   return (data || []).map(s => ({
     id: s.id,
     productId: s.product_id,
+    variantId: s.variant_id ?? undefined,
     quantity: s.quantity,
     unitPrice: s.unit_price,
     soldAt: new Date(s.sold_at),
@@ -425,6 +1511,7 @@ export const addSale = async (sale: Omit<Sale, 'id'>): Promise<Sale | null> => {
       id: uuidv4(),
       user_id: userId,
       product_id: sale.productId,
+      variant_id: sale.variantId ?? null,
       quantity: sale.quantity,
       unit_price: sale.unitPrice,
       sold_at: sale.soldAt instanceof Date ? sale.soldAt.toISOString() : sale.soldAt,
@@ -440,6 +1527,7 @@ export const addSale = async (sale: Omit<Sale, 'id'>): Promise<Sale | null> => {
   return {
     id: data.id,
     productId: data.product_id,
+    variantId: data.variant_id ?? undefined,
     quantity: data.quantity,
     unitPrice: data.unit_price,
     soldAt: new Date(data.sold_at),
@@ -464,6 +1552,7 @@ export const generateDemoSales = async (products: Product[]): Promise<void> => {
     id: string;
     user_id: string;
     product_id: string;
+    variant_id: string | null;
     quantity: number;
     unit_price: number;
     sold_at: string;
@@ -484,6 +1573,9 @@ export const generateDemoSales = async (products: Product[]): Promise<void> => {
           id: uuidv4(),
           user_id: userId,
           product_id: product.id,
+          variant_id: product.variants.length > 0
+            ? product.variants[Math.floor(Math.random() * product.variants.length)].id
+            : null,
           quantity: qty,
           unit_price: Math.floor(Math.random() * 5000) + 15000,
           sold_at: date.toISOString(),
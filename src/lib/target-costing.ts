@@ -0,0 +1,90 @@
+import type { HPPResult } from '@/types';
+
+export interface CostCategoryTarget {
+  key: 'materials' | 'labor' | 'utility' | 'overhead';
+  label: string;
+  current: number;
+  allowable: number; // The allowable HPP split by the category's current share
+  headroom: number; // Negative when the category has to be cut
+}
+
+export interface MaterialReduction {
+  name: string;
+  currentCost: number; // Per unit of product
+  pricePerUnit: number;
+  quantity: number;
+  unit: string;
+  reductionPercent: number | null; // Null when cutting this material alone is not enough
+  requiredPrice: number | null;
+  requiredQuantity: number | null;
+}
+
+export interface TargetCostResult {
+  targetPrice: number;
+  targetMarginPercent: number;
+  allowableHPP: number;
+  currentHPP: number;
+  gap: number; // Current HPP above the allowable HPP, zero when the target is met
+  categories: CostCategoryTarget[];
+  materials: MaterialReduction[]; // Largest cost first
+  allMaterialsReductionPercent: number | null; // Same cut on every material
+}
+
+/**
+ * Works back from a fixed selling price: the HPP that still leaves the target
+ * margin, and what each cost would have to give up to get there. Percentage
+ * overheads follow material and labor cost, so a rupiah cut from materials
+ * lowers the HPP by more than a rupiah.
+ */
+export const getTargetCost = (
+  hpp: HPPResult,
+  targetPrice: number,
+  targetMarginPercent: number,
+  percentageOverheadTotal: number
+): TargetCostResult => {
+  const { materialsTotal, laborCost, utilityCost, overheadCost, hppPerUnit } = hpp.breakdown;
+  const allowableHPP = Math.max(0, targetPrice * (1 - targetMarginPercent / 100));
+  const gap = Math.max(0, hppPerUnit - allowableHPP);
+  const materialCutNeeded = gap / (1 + percentageOverheadTotal / 100);
+
+  const categories: CostCategoryTarget[] = [
+    { key: 'materials' as const, label: 'Bahan Baku', current: materialsTotal },
+    { key: 'labor' as const, label: 'Tenaga Kerja', current: laborCost },
+    { key: 'utility' as const, label: 'Utilitas', current: utilityCost },
+    { key: 'overhead' as const, label: 'Overhead', current: overheadCost },
+  ].map(category => {
+    const allowable = hppPerUnit > 0 ? allowableHPP * (category.current / hppPerUnit) : 0;
+    return { ...category, allowable, headroom: allowable - category.current };
+  });
+
+  const materials = hpp.breakdown.materialDetails
+    .filter(m => m.total > 0)
+    .map(m => {
+      const reduction = materialCutNeeded / m.total;
+      const reachable = reduction <= 1;
+      return {
+        name: m.name,
+        currentCost: m.total,
+        pricePerUnit: m.pricePerUnit,
+        quantity: m.quantity,
+        unit: m.unit,
+        reductionPercent: reachable ? reduction * 100 : null,
+        requiredPrice: reachable ? m.pricePerUnit * (1 - reduction) : null,
+        requiredQuantity: reachable ? m.quantity * (1 - reduction) : null,
+      };
+    })
+    .sort((a, b) => b.currentCost - a.currentCost);
+
+  return {
+    targetPrice,
+    targetMarginPercent,
+    allowableHPP,
+    currentHPP: hppPerUnit,
+    gap,
+    categories,
+    materials,
+    allMaterialsReductionPercent: materialsTotal > 0 && materialCutNeeded <= materialsTotal
+      ? (materialCutNeeded / materialsTotal) * 100
+      : null,
+  };
+};
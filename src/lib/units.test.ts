@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { Material } from '@/types';
+import { convertQuantity, resolveQuantity } from './units';
+
+const material = (overrides: Partial<Material> = {}): Material => ({
+  id: 'milk',
+  name: 'Susu',
+  unit: 'g',
+  pricePerUnit: 20,
+  stockAmount: 0,
+  conversions: [],
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('convertQuantity', () => {
+  it('converts within a dimension', () => {
+    expect(convertQuantity(1.5, 'kg', 'g')).toBe(1500);
+    expect(convertQuantity(250, 'ml', 'l')).toBe(0.25);
+    expect(convertQuantity(3, 'pcs', 'pcs')).toBe(3);
+  });
+
+  it('returns null across dimensions', () => {
+    expect(convertQuantity(1, 'g', 'pcs')).toBeNull();
+    expect(convertQuantity(1, 'ml', 'g')).toBeNull();
+  });
+});
+
+describe('resolveQuantity', () => {
+  it('bridges volume and mass with the density', () => {
+    expect(resolveQuantity(200, 'ml', material({ density: 1.03 }))).toBeCloseTo(206);
+    expect(resolveQuantity(1, 'kg', material({ unit: 'l', density: 0.5 }))).toBeCloseTo(2);
+  });
+
+  it('returns null between volume and mass without a density', () => {
+    expect(resolveQuantity(200, 'ml', material())).toBeNull();
+  });
+
+  it('goes through the material conversions for kitchen units', () => {
+    const egg = material({ unit: 'g', conversions: [{ unit: 'butir', quantity: 55, baseUnit: 'g' }] });
+    expect(resolveQuantity(2, 'butir', egg)).toBe(110);
+    expect(resolveQuantity(2, 'butir', material())).toBeNull();
+  });
+});
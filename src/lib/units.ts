@@ -0,0 +1,100 @@
+import type { Material, Unit, KitchenUnit, RecipeUnit } from '@/types';
+
+type Dimension = 'mass' | 'volume' | 'count' | 'pack';
+
+// Factor to the base unit of each dimension (g, ml, pcs, pack)
+const UNIT_DEFINITIONS: Record<Unit, { dimension: Dimension; factor: number }> = {
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+  pcs: { dimension: 'count', factor: 1 },
+  pack: { dimension: 'pack', factor: 1 },
+};
+
+export const KITCHEN_UNITS: { value: KitchenUnit; label: string }[] = [
+  { value: 'sdm', label: 'Sendok makan (sdm)' },
+  { value: 'sdt', label: 'Sendok teh (sdt)' },
+  { value: 'butir', label: 'Butir' },
+  { value: 'gelas', label: 'Gelas' },
+];
+
+// Standard volumes used when a material has no conversion of its own.
+// 'butir' has no sensible default and must be defined per material.
+const DEFAULT_KITCHEN_VOLUMES: Partial<Record<KitchenUnit, number>> = {
+  sdm: 15,
+  sdt: 5,
+  gelas: 250,
+};
+
+export const isKitchenUnit = (unit: RecipeUnit): unit is KitchenUnit => {
+  return KITCHEN_UNITS.some(k => k.value === unit);
+};
+
+export const areUnitsCompatible = (from: Unit, to: Unit): boolean => {
+  return UNIT_DEFINITIONS[from].dimension === UNIT_DEFINITIONS[to].dimension;
+};
+
+export const getCompatibleUnits = (unit: Unit): Unit[] => {
+  return (Object.keys(UNIT_DEFINITIONS) as Unit[]).filter(u => areUnitsCompatible(unit, u));
+};
+
+// Returns null when the units measure different things (e.g. g vs pcs)
+export const convertQuantity = (quantity: number, from: Unit, to: Unit): number | null => {
+  if (from === to) return quantity;
+  if (!areUnitsCompatible(from, to)) return null;
+  return (quantity * UNIT_DEFINITIONS[from].factor) / UNIT_DEFINITIONS[to].factor;
+};
+
+// Like convertQuantity, but bridges ml <-> g with the material's density
+const convertWithDensity = (quantity: number, from: Unit, to: Unit, density?: number): number | null => {
+  const direct = convertQuantity(quantity, from, to);
+  if (direct !== null || !density) return direct;
+
+  const fromDimension = UNIT_DEFINITIONS[from].dimension;
+  const toDimension = UNIT_DEFINITIONS[to].dimension;
+  if (fromDimension === 'volume' && toDimension === 'mass') {
+    return convertQuantity(convertQuantity(quantity, from, 'ml')! * density, 'g', to);
+  }
+  if (fromDimension === 'mass' && toDimension === 'volume') {
+    return convertQuantity(convertQuantity(quantity, from, 'g')! / density, 'ml', to);
+  }
+  return null;
+};
+
+/**
+ * Resolve a recipe quantity into the material's own unit, going through the
+ * material's conversion table for kitchen units and its density for ml <-> g.
+ * Returns null when no conversion path exists.
+ */
+export const resolveQuantity = (
+  quantity: number,
+  from: RecipeUnit,
+  material: Pick<Material, 'unit' | 'conversions' | 'density'>
+): number | null => {
+  if (!isKitchenUnit(from)) {
+    return convertWithDensity(quantity, from, material.unit, material.density);
+  }
+
+  const conversion = material.conversions?.find(c => c.unit === from);
+  if (conversion) {
+    return convertWithDensity(quantity * conversion.quantity, conversion.baseUnit, material.unit, material.density);
+  }
+
+  const defaultVolume = DEFAULT_KITCHEN_VOLUMES[from];
+  if (defaultVolume === undefined) return null;
+  return convertWithDensity(quantity * defaultVolume, 'ml', material.unit, material.density);
+};
+
+export const canResolveUnit = (
+  unit: RecipeUnit,
+  material: Pick<Material, 'unit' | 'conversions' | 'density'>
+): boolean => {
+  return resolveQuantity(1, unit, material) !== null;
+};
+
+// Every unit a recipe may use for this material
+export const getRecipeUnits = (material: Pick<Material, 'unit' | 'conversions' | 'density'>): RecipeUnit[] => {
+  const units: RecipeUnit[] = [...(Object.keys(UNIT_DEFINITIONS) as Unit[]), ...KITCHEN_UNITS.map(k => k.value)];
+  return units.filter(u => canResolveUnit(u, material));
+};
@@ -0,0 +1,22 @@
+import type { Machine, MachineEnergy } from '@/types';
+import { formatCurrency, formatNumber } from './format';
+
+export const MACHINE_ENERGIES: { value: MachineEnergy; label: string }[] = [
+  { value: 'electric', label: 'Listrik' },
+  { value: 'lpg', label: 'Gas LPG' },
+];
+
+// Rupiah per minute the machine runs: kW × tariff for an hour, or one
+// cylinder spread over the minutes it burns
+export const getMachineCostPerMinute = (machine: Machine): number => {
+  if (machine.energy === 'lpg') {
+    return machine.cylinderMinutes > 0 ? machine.cylinderPrice / machine.cylinderMinutes : 0;
+  }
+  return (machine.powerKw * machine.tariffPerKwh) / 60;
+};
+
+// How the cost per minute is derived, for the HPP explanation
+export const describeMachineRate = (machine: Machine): string =>
+  machine.energy === 'lpg'
+    ? `${formatCurrency(machine.cylinderPrice)}/tabung ÷ ${formatNumber(machine.cylinderMinutes)} menit`
+    : `${formatNumber(machine.powerKw)} kW × ${formatCurrency(machine.tariffPerKwh, 2)}/kWh ÷ 60`;
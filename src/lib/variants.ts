@@ -0,0 +1,57 @@
+import type { HPPResult, Product, ProductVariant, Sale } from '@/types';
+import { getEffectiveYield } from './production';
+
+const isSameIngredient = (
+  a: { materialId: string; subProductId?: string },
+  b: { materialId: string; subProductId?: string }
+): boolean => (a.subProductId ? a.subProductId === b.subProductId : !b.subProductId && a.materialId === b.materialId);
+
+/**
+ * The product as one of its variants: base ingredients scaled or overridden,
+ * the variant's own ingredients added per unit, and its extra labor on top.
+ * Keeps the product id so overheads and sales still match the product.
+ */
+export const applyVariant = (product: Product, variant: ProductVariant): Product => {
+  const effectiveYield = getEffectiveYield(product);
+  const extraMinutes = variant.extraLaborMinutes;
+
+  return {
+    ...product,
+    name: `${product.name} - ${variant.name}`,
+    ingredients: [
+      ...product.ingredients.map(ingredient => {
+        const override = variant.ingredientOverrides.find(o => isSameIngredient(o, ingredient));
+        return { ...ingredient, quantity: override ? override.quantity : ingredient.quantity * variant.scaleFactor };
+      }),
+      // Entered per unit sold, the recipe is per batch
+      ...variant.extraIngredients.map(ingredient => ({ ...ingredient, quantity: ingredient.quantity * effectiveYield })),
+    ],
+    laborMinutes: product.laborMinutes + extraMinutes,
+    laborSteps: product.laborSteps.length > 0 && extraMinutes > 0
+      ? [
+        ...product.laborSteps,
+        {
+          id: `${variant.id}:labor`,
+          name: `Tambahan ${variant.name}`,
+          minutes: extraMinutes,
+          basis: 'unit' as const,
+          laborRateId: product.laborSteps[0].laborRateId,
+        },
+      ]
+      : product.laborSteps,
+    variants: [],
+  };
+};
+
+export const getVariantOverride = (variant: ProductVariant, ingredient: { materialId: string; subProductId?: string }) =>
+  variant.ingredientOverrides.find(o => isSameIngredient(o, ingredient));
+
+export const getVariantName = (product: Product | undefined, variantId?: string): string | undefined =>
+  variantId ? product?.variants.find(v => v.id === variantId)?.name : undefined;
+
+// Average price a variant actually sold at, null when it never sold
+export const getVariantAveragePrice = (result: HPPResult, sales: Sale[]): number | null => {
+  const variantSales = sales.filter(s => s.productId === result.productId && s.variantId === result.variantId);
+  const units = variantSales.reduce((sum, s) => sum + s.quantity, 0);
+  return units > 0 ? variantSales.reduce((sum, s) => sum + s.quantity * s.unitPrice, 0) / units : null;
+};
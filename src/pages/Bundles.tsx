@@ -0,0 +1,689 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Edit2, Trash2, Search, Gift, ShoppingCart, AlertTriangle } from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { DataTable } from '@/components/ui/data-table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { getBundles, addBundle, updateBundle, deleteBundle, getBundleSales, addBundleSale } from '@/lib/store';
+import { loadHPPData, formatCurrency, formatNumber, type HPPData } from '@/lib/hpp-calculator';
+import { computeBundleHPP, type BundleHPPResult } from '@/lib/bundles';
+import { getVariantName } from '@/lib/variants';
+import { canResolveUnit, getRecipeUnits } from '@/lib/units';
+import type { Bundle, BundleItem, BundleSale, ProductIngredient } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+interface BundleRowData {
+  bundle: Bundle;
+  result: BundleHPPResult | null;
+  error?: string;
+  unitsSold: number;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const Bundles: React.FC = () => {
+  const [bundles, setBundles] = useState<Bundle[]>([]);
+  const [bundleSales, setBundleSales] = useState<BundleSale[]>([]);
+  const [data, setData] = useState<HPPData | null>(null);
+  const [search, setSearch] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBundle, setEditingBundle] = useState<Bundle | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [saleBundle, setSaleBundle] = useState<BundleRowData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Form state
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    discountPercent: 10,
+    items: [] as BundleItem[],
+    packaging: [] as ProductIngredient[],
+  });
+
+  const [saleForm, setSaleForm] = useState({
+    quantity: 1,
+    unitPrice: 0,
+    soldAt: today(),
+  });
+
+  const loadData = async () => {
+    try {
+      const [loadedBundles, loadedSales, loadedData] = await Promise.all([
+        getBundles(),
+        getBundleSales(),
+        loadHPPData(),
+      ]);
+      setBundles(loadedBundles);
+      setBundleSales(loadedSales);
+      setData(loadedData);
+    } catch (error) {
+      console.error('Error loading data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const products = data?.products ?? [];
+  const materials = data?.materials ?? [];
+
+  const rows = useMemo<BundleRowData[]>(() => {
+    if (!data) return [];
+    return bundles.map(bundle => {
+      const unitsSold = bundleSales
+        .filter(s => s.bundleId === bundle.id)
+        .reduce((sum, s) => sum + s.quantity, 0);
+      try {
+        return { bundle, result: computeBundleHPP(bundle, data), unitsSold };
+      } catch (error) {
+        return { bundle, result: null, error: (error as Error).message, unitsSold };
+      }
+    });
+  }, [bundles, bundleSales, data]);
+
+  const filteredRows = rows.filter(r =>
+    r.bundle.name.toLowerCase().includes(search.toLowerCase())
+  );
+
+  const getItemName = (item: BundleItem) => {
+    const product = products.find(p => p.id === item.productId);
+    const variantName = getVariantName(product, item.variantId);
+    if (!product) return 'Unknown Product';
+    return variantName ? `${product.name} - ${variantName}` : product.name;
+  };
+
+  const handleOpenDialog = (bundle?: Bundle) => {
+    if (bundle) {
+      setEditingBundle(bundle);
+      setFormData({
+        name: bundle.name,
+        description: bundle.description,
+        discountPercent: bundle.discountPercent,
+        items: [...bundle.items],
+        packaging: [...bundle.packaging],
+      });
+    } else {
+      setEditingBundle(null);
+      setFormData({
+        name: '',
+        description: '',
+        discountPercent: 10,
+        items: [],
+        packaging: [],
+      });
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleAddItem = () => {
+    const product = products[0];
+    setFormData({
+      ...formData,
+      items: [
+        ...formData.items,
+        { id: uuidv4(), productId: product?.id ?? '', variantId: product?.variants[0]?.id, quantity: 1 },
+      ],
+    });
+  };
+
+  const handleItemChange = (index: number, changes: Partial<BundleItem>) => {
+    setFormData({
+      ...formData,
+      items: formData.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const handleItemProductChange = (index: number, productId: string) => {
+    const product = products.find(p => p.id === productId);
+    handleItemChange(index, { productId, variantId: product?.variants[0]?.id });
+  };
+
+  const handleRemoveItem = (index: number) => {
+    setFormData({ ...formData, items: formData.items.filter((_, i) => i !== index) });
+  };
+
+  const handleAddPackaging = () => {
+    setFormData({
+      ...formData,
+      packaging: [...formData.packaging, { id: uuidv4(), materialId: '', quantity: 1 }],
+    });
+  };
+
+  const handlePackagingChange = (index: number, changes: Partial<ProductIngredient>) => {
+    setFormData({
+      ...formData,
+      packaging: formData.packaging.map((p, i) => (i === index ? { ...p, ...changes } : p)),
+    });
+  };
+
+  const handleRemovePackaging = (index: number) => {
+    setFormData({ ...formData, packaging: formData.packaging.filter((_, i) => i !== index) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast({ title: 'Error', description: 'Nama paket harus diisi', variant: 'destructive' });
+      return;
+    }
+
+    if (formData.discountPercent < 0 || formData.discountPercent >= 100) {
+      toast({ title: 'Error', description: 'Diskon paket harus antara 0 dan 99%', variant: 'destructive' });
+      return;
+    }
+
+    const validItems = formData.items.filter(item => item.productId && item.quantity > 0);
+    if (validItems.length === 0) {
+      toast({ title: 'Error', description: 'Tambahkan minimal satu produk ke paket', variant: 'destructive' });
+      return;
+    }
+
+    const missingVariant = validItems.find(item =>
+      !item.variantId && (products.find(p => p.id === item.productId)?.variants.length ?? 0) > 0
+    );
+    if (missingVariant) {
+      toast({ title: 'Error', description: `Pilih varian untuk ${getItemName(missingVariant)}`, variant: 'destructive' });
+      return;
+    }
+
+    const validPackaging = formData.packaging.filter(p => p.materialId && p.quantity > 0);
+    const unconvertible = validPackaging.find(p => {
+      const material = materials.find(m => m.id === p.materialId);
+      return material && p.unit && !canResolveUnit(p.unit, material);
+    });
+    if (unconvertible) {
+      const material = materials.find(m => m.id === unconvertible.materialId)!;
+      toast({
+        title: 'Error',
+        description: `${unconvertible.unit} tidak bisa dikonversi ke ${material.unit} untuk ${material.name}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const payload = {
+      ...formData,
+      items: validItems,
+      packaging: validPackaging,
+    };
+
+    if (editingBundle) {
+      await updateBundle(editingBundle.id, payload);
+      toast({ title: 'Berhasil', description: 'Paket berhasil diperbarui' });
+    } else {
+      await addBundle(payload);
+      toast({ title: 'Berhasil', description: 'Paket berhasil ditambahkan' });
+    }
+
+    await loadData();
+    setIsDialogOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (deleteId) {
+      await deleteBundle(deleteId);
+      await loadData();
+      toast({ title: 'Berhasil', description: 'Paket berhasil dihapus' });
+      setDeleteId(null);
+    }
+  };
+
+  const handleOpenSale = (row: BundleRowData) => {
+    setSaleBundle(row);
+    setSaleForm({ quantity: 1, unitPrice: row.result?.suggestedPrice ?? 0, soldAt: today() });
+  };
+
+  const handleSaleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!saleBundle) return;
+
+    if (saleForm.quantity <= 0) {
+      toast({ title: 'Error', description: 'Jumlah harus lebih dari 0', variant: 'destructive' });
+      return;
+    }
+
+    await addBundleSale({
+      bundleId: saleBundle.bundle.id,
+      quantity: saleForm.quantity,
+      unitPrice: saleForm.unitPrice,
+      soldAt: new Date(saleForm.soldAt),
+    });
+
+    await loadData();
+    toast({ title: 'Berhasil', description: 'Penjualan paket berhasil dicatat' });
+    setSaleBundle(null);
+  };
+
+  const columns = [
+    { key: 'name', header: 'Nama Paket', cell: (row: BundleRowData) => (
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+          <Gift className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <p className="font-medium">{row.bundle.name}</p>
+          <p className="text-xs text-muted-foreground">{row.bundle.description || 'Tidak ada deskripsi'}</p>
+          {row.error && <p className="text-xs text-destructive">{row.error}</p>}
+        </div>
+      </div>
+    )},
+    { key: 'items', header: 'Isi Paket', cell: (row: BundleRowData) => (
+      <div className="flex flex-wrap gap-1">
+        {row.bundle.items.map(item => (
+          <Badge key={item.id} variant="secondary" className="text-xs">
+            {formatNumber(item.quantity, 0)}× {getItemName(item)}
+          </Badge>
+        ))}
+      </div>
+    )},
+    { key: 'hpp', header: 'HPP Paket', cell: (row: BundleRowData) => (
+      <span className="font-mono">{row.result ? formatCurrency(row.result.hpp) : '-'}</span>
+    ), className: 'text-right' },
+    { key: 'price', header: 'Harga Paket', cell: (row: BundleRowData) => row.result ? (
+      <div className="font-mono">
+        <p className="font-medium">{formatCurrency(row.result.suggestedPrice)}</p>
+        <p className="text-xs text-muted-foreground line-through">{formatCurrency(row.result.normalPrice)}</p>
+      </div>
+    ) : '-', className: 'text-right' },
+    { key: 'margin', header: 'Margin', cell: (row: BundleRowData) => row.result ? (
+      <div>
+        <p className={row.result.belowMinimum ? 'font-mono text-destructive' : 'font-mono'}>
+          {formatNumber(row.result.marginPercent, 1)}%
+        </p>
+        {row.result.belowMinimum && (
+          <Badge variant="destructive" className="mt-1 gap-1 text-xs font-normal">
+            <AlertTriangle className="w-3 h-3" />
+            Diskon maks. {formatNumber(row.result.maxDiscountPercent, 1)}%
+          </Badge>
+        )}
+      </div>
+    ) : '-', className: 'text-right' },
+    { key: 'sold', header: 'Terjual', cell: (row: BundleRowData) => (
+      <span className="font-mono">{formatNumber(row.unitsSold, 0)}</span>
+    ), className: 'text-right' },
+    { key: 'actions', header: '', cell: (row: BundleRowData) => (
+      <div className="flex items-center justify-end gap-2">
+        <Button size="sm" variant="ghost" title="Catat penjualan" onClick={(e) => { e.stopPropagation(); handleOpenSale(row); }}>
+          <ShoppingCart className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); handleOpenDialog(row.bundle); }}>
+          <Edit2 className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); setDeleteId(row.bundle.id); }}>
+          <Trash2 className="w-4 h-4 text-destructive" />
+        </Button>
+      </div>
+    ), className: 'w-32' },
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fade-in">
+      <PageHeader title="Paket" description="Gabungkan beberapa produk menjadi paket dengan harga khusus">
+        <Button onClick={() => handleOpenDialog()} disabled={products.length === 0}>
+          <Plus className="w-4 h-4 mr-2" />
+          Tambah Paket
+        </Button>
+      </PageHeader>
+
+      {/* Search */}
+      <div className="mb-6">
+        <div className="relative max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Cari paket..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      {/* Table */}
+      <DataTable
+        columns={columns}
+        data={filteredRows}
+        keyExtractor={(row) => row.bundle.id}
+        emptyMessage="Belum ada paket. Klik 'Tambah Paket' untuk memulai."
+      />
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingBundle ? 'Edit Paket' : 'Tambah Paket Baru'}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-6 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="col-span-2 sm:col-span-1">
+                  <Label htmlFor="name">Nama Paket</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Contoh: Paket Hemat 1"
+                  />
+                </div>
+                <div className="col-span-2 sm:col-span-1">
+                  <Label htmlFor="discount">Diskon dari Harga Normal (%)</Label>
+                  <Input
+                    id="discount"
+                    type="number"
+                    min="0"
+                    max="99"
+                    step="0.1"
+                    value={formData.discountPercent}
+                    onChange={(e) => setFormData({ ...formData, discountPercent: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="description">Deskripsi</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Deskripsi singkat paket..."
+                  rows={2}
+                />
+              </div>
+
+              {/* Items Section */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <Label>Isi Paket</Label>
+                  <Button type="button" size="sm" variant="outline" onClick={handleAddItem}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Tambah Produk
+                  </Button>
+                </div>
+
+                {formData.items.length === 0 ? (
+                  <div className="text-center py-8 border border-dashed rounded-lg text-muted-foreground">
+                    Belum ada produk. Klik "Tambah Produk" untuk menambahkan.
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {formData.items.map((item, index) => {
+                      const product = products.find(p => p.id === item.productId);
+                      return (
+                        <div key={item.id} className="flex gap-3 items-end p-3 bg-muted/50 rounded-lg">
+                          <div className="flex-1">
+                            <Label className="text-xs">Produk</Label>
+                            <Select
+                              value={item.productId}
+                              onValueChange={(value) => handleItemProductChange(index, value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Pilih produk" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {products.map(p => (
+                                  <SelectItem key={p.id} value={p.id}>
+                                    {p.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {product && product.variants.length > 0 && (
+                            <div className="w-36">
+                              <Label className="text-xs">Varian</Label>
+                              <Select
+                                value={item.variantId ?? ''}
+                                onValueChange={(value) => handleItemChange(index, { variantId: value })}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Pilih varian" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {product.variants.map(v => (
+                                    <SelectItem key={v.id} value={v.id}>
+                                      {v.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                          <div className="w-24">
+                            <Label className="text-xs">Jumlah</Label>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={item.quantity}
+                              onChange={(e) => handleItemChange(index, { quantity: Number(e.target.value) })}
+                            />
+                          </div>
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => handleRemoveItem(index)}
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {/* Packaging Section */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <Label>Kemasan Paket</Label>
+                  <Button type="button" size="sm" variant="outline" onClick={handleAddPackaging}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Tambah Kemasan
+                  </Button>
+                </div>
+
+                {formData.packaging.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Box, tas, atau stiker yang hanya dipakai untuk paket, per paket terjual.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {formData.packaging.map((item, index) => {
+                      const material = materials.find(m => m.id === item.materialId);
+                      return (
+                        <div key={item.id} className="flex gap-3 items-end p-3 bg-muted/50 rounded-lg">
+                          <div className="flex-1">
+                            <Label className="text-xs">Bahan</Label>
+                            <Select
+                              value={item.materialId}
+                              onValueChange={(value) => handlePackagingChange(index, {
+                                materialId: value,
+                                unit: materials.find(m => m.id === value)?.unit,
+                              })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Pilih bahan" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {materials.map(m => (
+                                  <SelectItem key={m.id} value={m.id}>
+                                    {m.name} ({m.unit})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="w-24">
+                            <Label className="text-xs">Jumlah</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={item.quantity}
+                              onChange={(e) => handlePackagingChange(index, { quantity: Number(e.target.value) })}
+                            />
+                          </div>
+                          <div className="w-24">
+                            <Label className="text-xs">Satuan</Label>
+                            <Select
+                              value={item.unit ?? material?.unit ?? ''}
+                              onValueChange={(value) => handlePackagingChange(index, { unit: value as ProductIngredient['unit'] })}
+                              disabled={!material}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="-" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(material ? getRecipeUnits(material) : []).map(u => (
+                                  <SelectItem key={u} value={u}>
+                                    {u}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => handleRemovePackaging(index)}
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Batal
+              </Button>
+              <Button type="submit">
+                {editingBundle ? 'Simpan' : 'Tambah'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Sale Dialog */}
+      <Dialog open={!!saleBundle} onOpenChange={() => setSaleBundle(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Catat Penjualan {saleBundle?.bundle.name}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="saleQuantity">Jumlah Paket</Label>
+                  <Input
+                    id="saleQuantity"
+                    type="number"
+                    min="1"
+                    value={saleForm.quantity}
+                    onChange={(e) => setSaleForm({ ...saleForm, quantity: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="salePrice">Harga per Paket (Rp)</Label>
+                  <Input
+                    id="salePrice"
+                    type="number"
+                    min="0"
+                    value={saleForm.unitPrice}
+                    onChange={(e) => setSaleForm({ ...saleForm, unitPrice: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="saleDate">Tanggal</Label>
+                <Input
+                  id="saleDate"
+                  type="date"
+                  value={saleForm.soldAt}
+                  onChange={(e) => setSaleForm({ ...saleForm, soldAt: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Produk di dalam paket ikut dihitung sebagai penjualan pada halaman Rekomendasi.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setSaleBundle(null)}>
+                Batal
+              </Button>
+              <Button type="submit">Simpan</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus Paket?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tindakan ini tidak dapat dibatalkan. Paket dan riwayat penjualannya akan dihapus secara permanen.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Bundles;
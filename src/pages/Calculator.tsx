@@ -1,11 +1,34 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Calculator as CalcIcon, Percent, DollarSign, Package, Clock, Layers } from 'lucide-react';
+import {
+  Calculator as CalcIcon,
+  Percent,
+  DollarSign,
+  Package,
+  Clock,
+  Layers,
+  Tag,
+  Store,
+  Target,
+  Activity,
+  FlaskConical,
+  Plus,
+  Edit2,
+  Trash2,
+  Camera,
+  CalendarDays,
+  Crosshair,
+  Flame,
+  Ruler,
+} from 'lucide-react';
 import { PageHeader } from '@/components/ui/page-header';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
   SelectContent,
@@ -13,32 +36,148 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { getProducts, getLaborRates } from '@/lib/store';
-import { calculateHPP, formatCurrency, formatNumber } from '@/lib/hpp-calculator';
-import type { Product, HPPResult, LaborRate } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ScenarioDialog } from '@/components/calculator/ScenarioDialog';
+import { ScenarioComparison } from '@/components/calculator/ScenarioComparison';
+import { HPPHistory } from '@/components/calculator/HPPHistory';
+import { HPPExplanation } from '@/components/calculator/HPPExplanation';
+import { HPPIssueAlert } from '@/components/HPPIssueAlert';
+import { TargetCosting } from '@/components/calculator/TargetCosting';
+import { getTargetCost } from '@/lib/target-costing';
+import { getVariantAveragePrice } from '@/lib/variants';
+import { hasBlockingIssues, validateProduct, type HPPIssue } from '@/lib/hpp-validation';
+import {
+  getProducts,
+  getLaborRates,
+  getPricingSettings,
+  getMaterials,
+  getScenarios,
+  addScenario,
+  updateScenario,
+  deleteScenario,
+  addSnapshots,
+} from '@/lib/store';
+import { toast } from '@/hooks/use-toast';
+import { computeHPP, loadHPPData, formatCurrency, formatNumber, type HPPData, type HPPOverrides } from '@/lib/hpp-calculator';
+import { getBreakEvenChartData, getProductBreakEven, type ProductBreakEven } from '@/lib/break-even';
+import { MAX_SENSITIVITY_PERCENT, runSensitivity } from '@/lib/sensitivity';
+import { toSnapshot } from '@/lib/hpp-history';
+import { DEFAULT_PRICING_SETTINGS, PRICE_ROUNDINGS, PRICING_STRATEGIES, describeStrategyParameter } from '@/lib/pricing';
+import type { Product, HPPResult, LaborRate, MaterialDetail, PricingSettings, Material, HPPScenario } from '@/types';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+
+const MAX_COMPARED_SCENARIOS = 4;
+
+// Sub-recipe rows are followed by their own ingredients, indented one level deeper
+const MaterialRows: React.FC<{ details: MaterialDetail[]; depth?: number }> = ({ details, depth = 0 }) => (
+  <>
+    {details.map((m, i) => (
+      <React.Fragment key={i}>
+        <tr className={depth === 0 ? 'border-b border-border last:border-0' : 'border-b border-border/50 text-sm'}>
+          <td className="p-3 font-medium" style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}>
+            {depth > 0 && <span className="text-muted-foreground mr-1">└</span>}
+            {m.name}
+            {m.children && <span className="ml-2 text-xs text-muted-foreground">(sub-resep)</span>}
+          </td>
+          <td className="p-3 text-right font-mono text-muted-foreground">
+            {formatNumber(m.netQuantity)} {m.unit}
+          </td>
+          <td className="p-3 text-right font-mono text-muted-foreground">
+            {formatNumber(m.quantity)} {m.unit}
+          </td>
+          <td className="p-3 text-right font-mono text-muted-foreground">
+            {formatCurrency(m.pricePerUnit)}
+          </td>
+          <td className={depth === 0 ? 'p-3 text-right font-mono font-medium' : 'p-3 text-right font-mono text-muted-foreground'}>
+            {formatCurrency(m.total)}
+          </td>
+        </tr>
+        {m.children && <MaterialRows details={m.children} depth={depth + 1} />}
+        {!!m.processCost && (
+          <tr className="border-b border-border/50 text-sm">
+            <td className="p-3 font-medium" colSpan={4} style={{ paddingLeft: `${0.75 + (depth + 1) * 1.25}rem` }}>
+              <span className="text-muted-foreground mr-1">└</span>
+              Tenaga kerja & utilitas sub-resep
+            </td>
+            <td className="p-3 text-right font-mono text-muted-foreground">{formatCurrency(m.processCost)}</td>
+          </tr>
+        )}
+      </React.Fragment>
+    ))}
+  </>
+);
 
 const Calculator: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [laborRates, setLaborRates] = useState<LaborRate[]>([]);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [scenarios, setScenarios] = useState<HPPScenario[]>([]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isScenarioDialogOpen, setIsScenarioDialogOpen] = useState(false);
+  const [editingScenario, setEditingScenario] = useState<HPPScenario | null>(null);
+  const [deleteScenarioId, setDeleteScenarioId] = useState<string | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
   const [selectedProductId, setSelectedProductId] = useState<string>('');
-  const [marginPercent, setMarginPercent] = useState(30);
+  const [pricing, setPricing] = useState<PricingSettings>(DEFAULT_PRICING_SETTINGS);
+  const [marginPercent, setMarginPercent] = useState(DEFAULT_PRICING_SETTINGS.marginPercent);
   const [laborMinutes, setLaborMinutes] = useState(30);
+  const [batchMinutes, setBatchMinutes] = useState(0);
   const [monthlyProduction, setMonthlyProduction] = useState(500);
+  const [asOfDate, setAsOfDate] = useState(''); // Empty means current prices
   const [result, setResult] = useState<HPPResult | null>(null);
+  const [issues, setIssues] = useState<HPPIssue[]>([]);
+  const [breakEven, setBreakEven] = useState<ProductBreakEven | null>(null);
+  const [lastRun, setLastRun] = useState<{ product: Product; data: HPPData; overrides: HPPOverrides } | null>(null);
+  const [sensitivityMode, setSensitivityMode] = useState(false);
+  const [sensitivityPercent, setSensitivityPercent] = useState(10);
+  const [targetMode, setTargetMode] = useState(false);
+  const [targetPrice, setTargetPrice] = useState(0);
+  const [targetMargin, setTargetMargin] = useState(DEFAULT_PRICING_SETTINGS.marginPercent);
+  const [sensitivityMetric, setSensitivityMetric] = useState<'hpp' | 'margin'>('hpp');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [loadedProducts, loadedLaborRates] = await Promise.all([
+        const [loadedProducts, loadedLaborRates, loadedPricing, loadedMaterials, loadedScenarios] = await Promise.all([
           getProducts(),
-          getLaborRates()
+          getLaborRates(),
+          getPricingSettings(),
+          getMaterials(),
+          getScenarios()
         ]);
         setProducts(loadedProducts);
         setLaborRates(loadedLaborRates);
+        setMaterials(loadedMaterials);
+        setScenarios(loadedScenarios);
+        setPricing(loadedPricing);
+        setMarginPercent(loadedPricing.marginPercent);
+        setTargetMargin(loadedPricing.marginPercent);
         if (loadedProducts.length > 0) {
           setSelectedProductId(loadedProducts[0].id);
           setLaborMinutes(loadedProducts[0].laborMinutes);
+          setBatchMinutes(loadedProducts[0].batchMinutes);
         }
       } catch (error) {
         console.error('Error loading data:', error);
@@ -56,19 +195,45 @@ const Calculator: React.FC = () => {
   useEffect(() => {
     if (selectedProduct) {
       setLaborMinutes(selectedProduct.laborMinutes);
+      setBatchMinutes(selectedProduct.batchMinutes);
     }
   }, [selectedProduct]);
 
   const handleCalculate = async () => {
     if (!selectedProduct) return;
 
-    const hppResult = await calculateHPP(selectedProduct, {
-      marginPercent,
-      laborMinutes,
-      monthlyProduction,
-    });
+    try {
+      const data = await loadHPPData();
+      const overrides: HPPOverrides = {
+        marginPercent,
+        pricing,
+        // Routed products are costed step by step
+        laborMinutes: selectedProduct.laborSteps.length > 0 ? undefined : laborMinutes,
+        batchMinutes: selectedProduct.laborSteps.length > 0 ? undefined : batchMinutes,
+        monthlyProduction,
+        asOf: asOfDate ? new Date(asOfDate) : undefined,
+      };
+      const productIssues = validateProduct(selectedProduct, data, overrides);
+      setIssues(productIssues);
+      if (hasBlockingIssues(productIssues)) {
+        setResult(null);
+        setBreakEven(null);
+        setLastRun(null);
+        return;
+      }
+
+      const hppResult = computeHPP(selectedProduct, data, overrides, { trace: true });
 
-    setResult(hppResult);
+      setResult(hppResult);
+      setLastRun({ product: selectedProduct, data, overrides });
+      setBreakEven(getProductBreakEven(selectedProduct, hppResult, data.overheads, data.products, data.sales));
+    } catch (error) {
+      console.error('Error calculating HPP:', error);
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      setResult(null);
+      setBreakEven(null);
+      setLastRun(null);
+    }
   };
 
   const handleProductChange = (productId: string) => {
@@ -76,10 +241,106 @@ const Calculator: React.FC = () => {
     const product = products.find(p => p.id === productId);
     if (product) {
       setLaborMinutes(product.laborMinutes);
+      setBatchMinutes(product.batchMinutes);
     }
     setResult(null);
+    setIssues([]);
+    setBreakEven(null);
+    setLastRun(null);
+  };
+
+  // Snapshots record the saved HPP, like the automatic ones, not the what-if
+  // result with its slider overrides and past prices
+  const handleSaveSnapshot = async () => {
+    if (!lastRun) return;
+    let saved: HPPResult;
+    try {
+      saved = computeHPP(lastRun.product, lastRun.data);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      return;
+    }
+    if (await addSnapshots([toSnapshot(saved, 'manual')])) {
+      setHistoryKey(historyKey + 1);
+      toast({ title: 'Berhasil', description: 'Snapshot HPP disimpan, tanpa nilai simulasi' });
+    } else {
+      toast({ title: 'Error', description: 'Gagal menyimpan snapshot', variant: 'destructive' });
+    }
   };
 
+  const handleOpenScenarioDialog = (scenario?: HPPScenario) => {
+    setEditingScenario(scenario ?? null);
+    setIsScenarioDialogOpen(true);
+  };
+
+  const handleSaveScenario = async (scenario: Omit<HPPScenario, 'id' | 'updatedAt'>) => {
+    const saved = editingScenario
+      ? await updateScenario(editingScenario.id, scenario)
+      : await addScenario(scenario);
+    if (!saved) {
+      toast({ title: 'Error', description: 'Gagal menyimpan skenario', variant: 'destructive' });
+      return;
+    }
+    setScenarios(await getScenarios());
+    setIsScenarioDialogOpen(false);
+    toast({ title: 'Berhasil', description: `Skenario "${saved.name}" disimpan` });
+  };
+
+  const handleDeleteScenario = async () => {
+    if (deleteScenarioId) {
+      await deleteScenario(deleteScenarioId);
+      setScenarios(await getScenarios());
+      setCompareIds(compareIds.filter(id => id !== deleteScenarioId));
+      toast({ title: 'Berhasil', description: 'Skenario berhasil dihapus' });
+      setDeleteScenarioId(null);
+    }
+  };
+
+  const handleToggleCompare = (id: string, checked: boolean) => {
+    setCompareIds(checked ? [...compareIds, id] : compareIds.filter(c => c !== id));
+  };
+
+  const comparedScenarios = useMemo(() => {
+    return compareIds
+      .map(id => scenarios.find(s => s.id === id))
+      .filter((s): s is HPPScenario => !!s);
+  }, [compareIds, scenarios]);
+
+  // Reruns the last calculation with every driver moved by ±sensitivityPercent
+  const sensitivity = useMemo(() => {
+    if (!sensitivityMode || !lastRun || sensitivityPercent <= 0) return null;
+    try {
+      return runSensitivity(lastRun.product, lastRun.data, lastRun.overrides, sensitivityPercent);
+    } catch (error) {
+      console.error('Error running sensitivity analysis:', error);
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      return null;
+    }
+  }, [sensitivityMode, lastRun, sensitivityPercent]);
+
+  const targetCost = useMemo(() => {
+    if (!targetMode || !result || !lastRun || targetPrice <= 0) return null;
+    // Percentage overheads shrink along with the costs they are charged on
+    const percentageOverheadTotal = result.breakdown.overheadDetails
+      .filter(o => o.allocationType === 'percentage')
+      .reduce((sum, o) => sum + (lastRun.data.overheads.find(oh => oh.id === o.overheadId)?.amount ?? 0), 0);
+    return getTargetCost(result, targetPrice, targetMargin, percentageOverheadTotal);
+  }, [targetMode, result, lastRun, targetPrice, targetMargin]);
+
+  const tornadoData = useMemo(() => {
+    if (!sensitivity) return [];
+    return sensitivity.drivers.slice(0, 10).map(driver => {
+      const delta = (outcome: typeof driver.low) => sensitivityMetric === 'hpp'
+        ? outcome.hppPerUnit - sensitivity.base.hppPerUnit
+        : outcome.marginPercent - sensitivity.base.marginPercent;
+      return { label: driver.label, low: delta(driver.low), high: delta(driver.high) };
+    });
+  }, [sensitivity, sensitivityMetric]);
+
+  const formatDelta = (value: number) => sensitivityMetric === 'hpp'
+    ? `${value >= 0 ? '+' : '-'}${formatCurrency(Math.abs(value))}`
+    : `${value >= 0 ? '+' : ''}${formatNumber(value, 1)} poin`;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -93,7 +354,14 @@ const Calculator: React.FC = () => {
       <PageHeader
         title="Kalkulator HPP"
         description="Hitung Harga Pokok Produksi dengan mudah"
-      />
+      >
+        {lastRun && (
+          <Button variant="outline" onClick={handleSaveSnapshot}>
+            <Camera className="w-4 h-4 mr-2" />
+            Simpan Snapshot
+          </Button>
+        )}
+      </PageHeader>
 
       {products.length === 0 ? (
         <Card>
@@ -162,16 +430,49 @@ const Calculator: React.FC = () => {
                     <Clock className="w-4 h-4" />
                     Waktu Kerja per Unit (menit)
                   </Label>
-                  <Input
-                    id="labor"
-                    type="number"
-                    min="1"
-                    value={laborMinutes}
-                    onChange={(e) => setLaborMinutes(Number(e.target.value))}
-                    className="mt-2"
-                  />
+                  {selectedProduct && selectedProduct.laborSteps.length > 0 ? (
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {selectedProduct.laborSteps.map(step => (
+                        <li key={step.id} className="flex justify-between text-muted-foreground">
+                          <span>{step.name}</span>
+                          <span className="font-mono">
+                            {formatNumber(step.minutes)} menit/{step.basis === 'batch' ? 'batch' : 'unit'} · {laborRates.find(r => r.id === step.laborRateId)?.name ?? '-'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <Input
+                      id="labor"
+                      type="number"
+                      min="1"
+                      value={laborMinutes}
+                      onChange={(e) => setLaborMinutes(Number(e.target.value))}
+                      className="mt-2"
+                    />
+                  )}
                 </div>
 
+                {selectedProduct && selectedProduct.laborSteps.length === 0 && (
+                  <div>
+                    <Label htmlFor="batch" className="flex items-center gap-2">
+                      <Clock className="w-4 h-4" />
+                      Waktu Persiapan per Batch (menit)
+                    </Label>
+                    <Input
+                      id="batch"
+                      type="number"
+                      min="0"
+                      value={batchMinutes}
+                      onChange={(e) => setBatchMinutes(Number(e.target.value))}
+                      className="mt-2"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Dibagi ke {formatNumber(selectedProduct.yieldPerBatch, 0)} unit per batch
+                    </p>
+                  </div>
+                )}
+
                 {/* Monthly Production */}
                 <div>
                   <Label htmlFor="production" className="flex items-center gap-2">
@@ -191,16 +492,163 @@ const Calculator: React.FC = () => {
                   </p>
                 </div>
 
+                {/* Historical costing */}
+                <div>
+                  <Label htmlFor="asOf" className="flex items-center gap-2">
+                    <CalendarDays className="w-4 h-4" />
+                    Harga Bahan per Tanggal
+                  </Label>
+                  <Input
+                    id="asOf"
+                    type="date"
+                    value={asOfDate}
+                    onChange={(e) => setAsOfDate(e.target.value)}
+                    className="mt-2"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Kosongkan untuk memakai harga bahan saat ini
+                  </p>
+                </div>
+
+                {/* Target Costing Mode */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="targetMode" className="flex items-center gap-2">
+                      <Crosshair className="w-4 h-4" />
+                      Mode Target Harga
+                    </Label>
+                    <Switch
+                      id="targetMode"
+                      checked={targetMode}
+                      onCheckedChange={setTargetMode}
+                    />
+                  </div>
+                  {targetMode && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label htmlFor="targetPrice" className="text-xs">Harga Target (Rp)</Label>
+                        <Input
+                          id="targetPrice"
+                          type="number"
+                          min="0"
+                          value={targetPrice}
+                          onChange={(e) => setTargetPrice(Number(e.target.value))}
+                          className="input-currency"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="targetMargin" className="text-xs">Target Margin (%)</Label>
+                        <Input
+                          id="targetMargin"
+                          type="number"
+                          min="0"
+                          max="99"
+                          value={targetMargin}
+                          onChange={(e) => setTargetMargin(Number(e.target.value))}
+                        />
+                      </div>
+                      <p className="col-span-2 text-xs text-muted-foreground">
+                        Misalnya harga pesaing di pasaran
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Sensitivity Mode */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="sensitivity" className="flex items-center gap-2">
+                      <Activity className="w-4 h-4" />
+                      Mode Sensitivitas
+                    </Label>
+                    <Switch
+                      id="sensitivity"
+                      checked={sensitivityMode}
+                      onCheckedChange={setSensitivityMode}
+                    />
+                  </div>
+                  {sensitivityMode && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">Variasi ±</span>
+                      <Input
+                        type="number"
+                        min="1"
+                        max={MAX_SENSITIVITY_PERCENT}
+                        value={sensitivityPercent}
+                        onChange={(e) => setSensitivityPercent(Math.min(MAX_SENSITIVITY_PERCENT, Number(e.target.value)))}
+                        className="w-24"
+                      />
+                      <span className="text-sm text-muted-foreground">%</span>
+                    </div>
+                  )}
+                </div>
+
                 <Button onClick={handleCalculate} className="w-full" size="lg">
                   <CalcIcon className="w-4 h-4 mr-2" />
                   Hitung HPP
                 </Button>
               </CardContent>
             </Card>
+
+            {/* Saved Scenarios */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <FlaskConical className="w-5 h-5 text-accent" />
+                    Skenario
+                  </CardTitle>
+                  <Button size="sm" variant="outline" onClick={() => handleOpenScenarioDialog()}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Tambah
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {scenarios.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Belum ada skenario. Simpan asumsi seperti "Gula +20%" untuk dibandingkan.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {scenarios.map(scenario => {
+                      const isCompared = compareIds.includes(scenario.id);
+                      return (
+                        <div key={scenario.id} className="flex items-center gap-2">
+                          <Checkbox
+                            checked={isCompared}
+                            disabled={!isCompared && compareIds.length >= MAX_COMPARED_SCENARIOS}
+                            onCheckedChange={(checked) => handleToggleCompare(scenario.id, checked === true)}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium truncate">{scenario.name}</p>
+                            {scenario.materialPrices.length > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {scenario.materialPrices.length} harga bahan diubah
+                              </p>
+                            )}
+                          </div>
+                          <Button size="icon" variant="ghost" onClick={() => handleOpenScenarioDialog(scenario)}>
+                            <Edit2 className="w-4 h-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => setDeleteScenarioId(scenario.id)}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                    <p className="text-xs text-muted-foreground pt-2">
+                      Centang hingga {MAX_COMPARED_SCENARIOS} skenario untuk dibandingkan dengan hasil saat ini
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
 
           {/* Result Panel */}
           <div className="lg:col-span-2">
+            <HPPIssueAlert issues={issues} className="mb-6" />
             {result ? (
               <div className="space-y-6 animate-scale-in">
                 {/* Summary Cards */}
@@ -225,7 +673,7 @@ const Calculator: React.FC = () => {
                     <CardContent className="p-6">
                       <p className="text-sm opacity-80 mb-1">Margin</p>
                       <p className="text-3xl font-bold font-mono">
-                        {result.marginPercent}%
+                        {formatNumber(result.priceSuggestions.find(p => p.strategy === result.pricingStrategy)?.marginPercent ?? 0, 1)}%
                       </p>
                       <p className="text-sm opacity-80 mt-1">
                         {formatCurrency(result.suggestedPrice - result.breakdown.hppPerUnit)}/unit
@@ -234,6 +682,339 @@ const Calculator: React.FC = () => {
                   </Card>
                 </div>
 
+                {/* Variants */}
+                {result.variants && lastRun && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <Ruler className="w-5 h-5 text-accent" />
+                        HPP per Varian
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="bg-muted/50 rounded-lg overflow-x-auto">
+                        <table className="w-full">
+                          <thead>
+                            <tr className="border-b border-border">
+                              <th className="text-left p-3 text-xs font-semibold text-muted-foreground uppercase">Varian</th>
+                              <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">HPP/Unit</th>
+                              <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Harga Rekomendasi</th>
+                              <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Harga Jual Rata-rata</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {result.variants.map(variant => {
+                              const averagePrice = getVariantAveragePrice(variant, lastRun.data.sales);
+                              const variantName = lastRun.product.variants.find(v => v.id === variant.variantId)?.name;
+                              return (
+                                <tr key={variant.variantId} className="border-b border-border last:border-0">
+                                  <td className="p-3 font-medium">{variantName}</td>
+                                  <td className="p-3 text-right font-mono">{formatCurrency(variant.breakdown.hppPerUnit)}</td>
+                                  <td className="p-3 text-right font-mono">{formatCurrency(variant.suggestedPrice)}</td>
+                                  <td className="p-3 text-right font-mono">
+                                    {averagePrice !== null ? (
+                                      <span className={averagePrice < variant.breakdown.hppPerUnit ? 'text-destructive' : undefined}>
+                                        {formatCurrency(averagePrice)}
+                                      </span>
+                                    ) : (
+                                      <span className="text-sm text-muted-foreground">Belum terjual</span>
+                                    )}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-3">
+                        Ringkasan dan rincian di halaman ini memakai resep dasar.
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Scenario Comparison */}
+                {lastRun && comparedScenarios.length > 0 && (
+                  <ScenarioComparison
+                    product={lastRun.product}
+                    data={lastRun.data}
+                    baseOverrides={lastRun.overrides}
+                    scenarios={comparedScenarios}
+                  />
+                )}
+
+                {/* Pricing Strategies */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Tag className="w-5 h-5 text-accent" />
+                      Perbandingan Strategi Harga
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+                      {result.priceSuggestions.map(suggestion => {
+                        const strategy = PRICING_STRATEGIES.find(s => s.value === suggestion.strategy);
+                        const isSelected = suggestion.strategy === result.pricingStrategy;
+                        return (
+                          <div
+                            key={suggestion.strategy}
+                            className={isSelected ? 'p-4 rounded-lg border-2 border-accent bg-accent/5' : 'p-4 rounded-lg border border-border bg-muted/50'}
+                          >
+                            <p className="text-sm font-medium">{strategy?.label}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {describeStrategyParameter(suggestion.strategy, { ...pricing, marginPercent: result.marginPercent })}
+                            </p>
+                            <p className="text-2xl font-bold font-mono mt-2">
+                              {formatCurrency(suggestion.price)}
+                            </p>
+                            <p className={suggestion.profit < 0 ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'}>
+                              {suggestion.profit < 0 ? 'Rugi' : 'Laba'} {formatCurrency(Math.abs(suggestion.profit))}/unit · margin {formatNumber(suggestion.marginPercent, 1)}%
+                            </p>
+                            {isSelected && (
+                              <p className="text-xs font-medium text-accent mt-1">Strategi utama</p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Pembulatan: {PRICE_ROUNDINGS.find(r => r.value === pricing.rounding)?.label}. Ubah strategi di halaman Pengaturan.
+                    </p>
+                  </CardContent>
+                </Card>
+
+                {/* Sales Channels */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Store className="w-5 h-5 text-accent" />
+                      Harga per Kanal Penjualan
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="bg-muted/50 rounded-lg overflow-x-auto">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b border-border">
+                            <th className="text-left p-3 text-xs font-semibold text-muted-foreground uppercase">Kanal</th>
+                            <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Harga Jual</th>
+                            <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Komisi</th>
+                            <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Biaya Tetap</th>
+                            <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">PPN</th>
+                            <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Diterima</th>
+                            <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Laba</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          <tr className="border-b border-border">
+                            <td className="p-3 font-medium">Toko (langsung)</td>
+                            <td className="p-3 text-right font-mono font-medium">{formatCurrency(result.suggestedPrice)}</td>
+                            <td className="p-3 text-right font-mono text-muted-foreground">-</td>
+                            <td className="p-3 text-right font-mono text-muted-foreground">-</td>
+                            <td className="p-3 text-right font-mono text-muted-foreground">-</td>
+                            <td className="p-3 text-right font-mono">{formatCurrency(result.suggestedPrice)}</td>
+                            <td className="p-3 text-right font-mono">
+                              {formatCurrency(result.suggestedPrice - result.breakdown.hppPerUnit)}
+                            </td>
+                          </tr>
+                          {result.channelPrices.map(channel => (
+                            <tr key={channel.channelId} className="border-b border-border last:border-0">
+                              <td className="p-3 font-medium">{channel.channelName}</td>
+                              {channel.price === null ? (
+                                <td colSpan={6} className="p-3 text-right text-sm text-destructive">
+                                  Komisi dan PPN melebihi harga jual, harga tidak dapat dihitung
+                                </td>
+                              ) : (
+                                <>
+                                  <td className="p-3 text-right font-mono font-medium">{formatCurrency(channel.price)}</td>
+                                  <td className="p-3 text-right font-mono text-muted-foreground">{formatCurrency(channel.commission)}</td>
+                                  <td className="p-3 text-right font-mono text-muted-foreground">{formatCurrency(channel.fixedFee)}</td>
+                                  <td className="p-3 text-right font-mono text-muted-foreground">{formatCurrency(channel.tax)}</td>
+                                  <td className="p-3 text-right font-mono">{formatCurrency(channel.netRevenue)}</td>
+                                  <td className="p-3 text-right font-mono">
+                                    {formatCurrency(channel.profit)}
+                                    <span className="block text-xs text-muted-foreground">
+                                      margin {formatNumber(channel.marginPercent, 1)}%
+                                    </span>
+                                  </td>
+                                </>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-3">
+                      {result.channelPrices.length === 0
+                        ? 'Belum ada kanal penjualan. Tambahkan GoFood, GrabFood, dll. di halaman Pengaturan.'
+                        : 'Harga kanal dihitung agar pendapatan bersih setelah komisi, biaya, dan PPN sama dengan harga toko.'}
+                    </p>
+                  </CardContent>
+                </Card>
+
+                {/* Break-even */}
+                {breakEven && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <Target className="w-5 h-5 text-accent" />
+                        Titik Impas (Break-even) per Bulan
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                        <div>
+                          <p className="text-sm text-muted-foreground">Harga Jual</p>
+                          <p className="text-lg font-bold font-mono">{formatCurrency(breakEven.price)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {breakEven.priceSource === 'sales' ? 'rata-rata penjualan' : 'harga rekomendasi (belum ada penjualan)'}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">Biaya Variabel/Unit</p>
+                          <p className="text-lg font-bold font-mono">{formatCurrency(breakEven.variableCost)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            kontribusi {formatCurrency(breakEven.contributionMargin)}/unit
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">Biaya Tetap/Bulan</p>
+                          <p className="text-lg font-bold font-mono">{formatCurrency(breakEven.fixedCosts)}</p>
+                          <p className="text-xs text-muted-foreground">porsi overhead bulanan produk ini</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">Titik Impas</p>
+                          {breakEven.breakEvenUnits !== null ? (
+                            <>
+                              <p className="text-lg font-bold font-mono text-accent">
+                                {formatNumber(Math.ceil(breakEven.breakEvenUnits), 0)} unit
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {formatCurrency(breakEven.breakEvenRevenue ?? 0)}/bulan
+                              </p>
+                            </>
+                          ) : (
+                            <p className="text-sm font-medium text-destructive">
+                              Tidak tercapai, harga di bawah biaya variabel
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="h-[260px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={getBreakEvenChartData(breakEven)}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                            <XAxis
+                              dataKey="units"
+                              type="number"
+                              stroke="hsl(var(--muted-foreground))"
+                              fontSize={12}
+                              tickFormatter={(value) => formatNumber(value, 0)}
+                            />
+                            <YAxis
+                              stroke="hsl(var(--muted-foreground))"
+                              fontSize={12}
+                              tickFormatter={(value) => `${(value / 1000000).toFixed(1)}jt`}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                backgroundColor: 'hsl(var(--card))',
+                                border: '1px solid hsl(var(--border))',
+                                borderRadius: '8px',
+                              }}
+                              labelFormatter={(value) => `${formatNumber(Number(value), 0)} unit`}
+                              formatter={(value: number, name: string) => [
+                                formatCurrency(value),
+                                name === 'revenue' ? 'Pendapatan' : 'Total Biaya',
+                              ]}
+                            />
+                            <Legend formatter={(value) => (value === 'revenue' ? 'Pendapatan' : 'Total Biaya')} />
+                            <Line type="linear" dataKey="revenue" stroke="hsl(var(--accent))" strokeWidth={2} dot={false} />
+                            <Line type="linear" dataKey="totalCost" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                            {breakEven.breakEvenUnits !== null && (
+                              <ReferenceLine
+                                x={breakEven.breakEvenUnits}
+                                stroke="hsl(var(--muted-foreground))"
+                                strokeDasharray="4 4"
+                                label={{ value: 'Impas', position: 'top', fontSize: 12 }}
+                              />
+                            )}
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Target Costing */}
+                {targetCost && <TargetCosting target={targetCost} />}
+
+                {/* Sensitivity */}
+                {sensitivity && (
+                  <Card>
+                    <CardHeader>
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <CardTitle className="text-lg flex items-center gap-2">
+                          <Activity className="w-5 h-5 text-accent" />
+                          Sensitivitas HPP (±{formatNumber(sensitivity.percent)}%)
+                        </CardTitle>
+                        <Tabs value={sensitivityMetric} onValueChange={(value) => setSensitivityMetric(value as 'hpp' | 'margin')}>
+                          <TabsList>
+                            <TabsTrigger value="hpp">HPP</TabsTrigger>
+                            <TabsTrigger value="margin">Margin</TabsTrigger>
+                          </TabsList>
+                        </Tabs>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      {tornadoData.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Tidak ada komponen biaya untuk dianalisis</p>
+                      ) : (
+                        <div style={{ height: `${Math.max(200, tornadoData.length * 36 + 60)}px` }}>
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={tornadoData} layout="vertical" stackOffset="sign">
+                              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                              <XAxis
+                                type="number"
+                                stroke="hsl(var(--muted-foreground))"
+                                fontSize={12}
+                                tickFormatter={(value) => sensitivityMetric === 'hpp' ? formatNumber(value, 0) : `${formatNumber(value, 1)}`}
+                              />
+                              <YAxis
+                                type="category"
+                                dataKey="label"
+                                stroke="hsl(var(--muted-foreground))"
+                                fontSize={12}
+                                width={130}
+                              />
+                              <Tooltip
+                                contentStyle={{
+                                  backgroundColor: 'hsl(var(--card))',
+                                  border: '1px solid hsl(var(--border))',
+                                  borderRadius: '8px',
+                                }}
+                                formatter={(value: number, name: string) => [
+                                  formatDelta(value),
+                                  name === 'low' ? `Turun ${sensitivity.percent}%` : `Naik ${sensitivity.percent}%`,
+                                ]}
+                              />
+                              <Legend formatter={(value) => (value === 'low' ? `Turun ${sensitivity.percent}%` : `Naik ${sensitivity.percent}%`)} />
+                              <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                              <Bar dataKey="low" stackId="driver" fill="hsl(var(--success))" />
+                              <Bar dataKey="high" stackId="driver" fill="hsl(var(--destructive))" />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-3">
+                        HPP dasar {formatCurrency(sensitivity.base.hppPerUnit)}, margin {formatNumber(sensitivity.base.marginPercent, 1)}% pada
+                        harga {formatCurrency(sensitivity.basePrice)}. Diurutkan dari pengaruh terbesar; margin dihitung dengan harga jual tetap.
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Breakdown */}
                 <Card>
                   <CardHeader>
@@ -252,28 +1033,16 @@ const Calculator: React.FC = () => {
                             <thead>
                               <tr className="border-b border-border">
                                 <th className="text-left p-3 text-xs font-semibold text-muted-foreground uppercase">Bahan</th>
-                                <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Jumlah</th>
+                                <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Bersih</th>
+                                <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Kotor</th>
                                 <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Harga</th>
                                 <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Total</th>
                               </tr>
                             </thead>
                             <tbody>
-                              {result.breakdown.materialDetails.map((m, i) => (
-                                <tr key={i} className="border-b border-border last:border-0">
-                                  <td className="p-3 font-medium">{m.name}</td>
-                                  <td className="p-3 text-right font-mono text-muted-foreground">
-                                    {formatNumber(m.quantity)} {m.unit}
-                                  </td>
-                                  <td className="p-3 text-right font-mono text-muted-foreground">
-                                    {formatCurrency(m.pricePerUnit)}
-                                  </td>
-                                  <td className="p-3 text-right font-mono font-medium">
-                                    {formatCurrency(m.total)}
-                                  </td>
-                                </tr>
-                              ))}
+                              <MaterialRows details={result.breakdown.materialDetails} />
                               <tr className="bg-muted">
-                                <td colSpan={3} className="p-3 font-semibold">Subtotal Bahan</td>
+                                <td colSpan={4} className="p-3 font-semibold">Subtotal Bahan</td>
                                 <td className="p-3 text-right font-mono font-bold">
                                   {formatCurrency(result.breakdown.materialsTotal)}
                                 </td>
@@ -293,9 +1062,30 @@ const Calculator: React.FC = () => {
                           <p className="text-2xl font-bold font-mono">
                             {formatCurrency(result.breakdown.laborCost)}
                           </p>
-                          <p className="text-sm text-muted-foreground mt-1">
-                            {laborMinutes} menit @ Rp{formatNumber(laborRates[0]?.wagePerHour || 20000)}/jam
-                          </p>
+                          {(['unit', 'batch'] as const).map(basis => {
+                            const details = result.breakdown.laborDetails.filter(l => l.basis === basis);
+                            if (details.length === 0) return null;
+                            return (
+                              <div key={basis} className="mt-2">
+                                <div className="flex justify-between text-sm font-medium">
+                                  <span>{basis === 'unit' ? 'Per unit' : 'Per batch (dibagi ke hasil batch)'}</span>
+                                  <span className="font-mono">
+                                    {formatCurrency(details.reduce((sum, l) => sum + l.total, 0))}
+                                  </span>
+                                </div>
+                                <ul className="space-y-1">
+                                  {details.map((l, i) => (
+                                    <li key={i} className="flex justify-between gap-2 text-sm text-muted-foreground">
+                                      <span>
+                                        {l.name}: {formatNumber(l.minutes)} menit @ Rp{formatNumber(l.wagePerHour)}/jam
+                                      </span>
+                                      <span className="font-mono">{formatCurrency(l.total)}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            );
+                          })}
                         </div>
 
                         <div className="p-4 bg-muted/50 rounded-lg">
@@ -306,10 +1096,43 @@ const Calculator: React.FC = () => {
                           <p className="text-2xl font-bold font-mono">
                             {formatCurrency(result.breakdown.overheadCost)}
                           </p>
-                          <p className="text-sm text-muted-foreground mt-1">
-                            Dialokasikan per {formatNumber(monthlyProduction, 0)} unit/bulan
-                          </p>
+                          {result.breakdown.overheadDetails.length > 0 ? (
+                            <ul className="mt-2 space-y-1">
+                              {result.breakdown.overheadDetails.map(o => (
+                                <li key={o.overheadId} className="flex justify-between text-sm text-muted-foreground">
+                                  <span>{o.name}</span>
+                                  <span className="font-mono">{formatCurrency(o.amount)}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-sm text-muted-foreground mt-1">
+                              Tidak ada overhead untuk produk ini
+                            </p>
+                          )}
                         </div>
+
+                        {result.breakdown.utilityDetails.length > 0 && (
+                          <div className="p-4 bg-muted/50 rounded-lg sm:col-span-2">
+                            <div className="flex items-center gap-2 mb-2">
+                              <Flame className="w-4 h-4 text-accent" />
+                              <span className="font-medium">Biaya Utilitas</span>
+                            </div>
+                            <p className="text-2xl font-bold font-mono">
+                              {formatCurrency(result.breakdown.utilityCost)}
+                            </p>
+                            <ul className="mt-2 space-y-1">
+                              {result.breakdown.utilityDetails.map(u => (
+                                <li key={u.machineId} className="flex justify-between gap-2 text-sm text-muted-foreground">
+                                  <span>
+                                    {u.name}: {formatNumber(u.minutes)} menit/batch @ {formatCurrency(u.costPerMinute)}/menit
+                                  </span>
+                                  <span className="font-mono">{formatCurrency(u.total)}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
 
                       {/* Total Summary */}
@@ -321,7 +1144,9 @@ const Calculator: React.FC = () => {
                           </span>
                         </div>
                         <div className="mt-4 pt-4 border-t border-primary/20 flex justify-between items-center">
-                          <span className="font-medium">Dengan margin {result.marginPercent}%</span>
+                          <span className="font-medium">
+                            Harga jual ({PRICING_STRATEGIES.find(s => s.value === result.pricingStrategy)?.label})
+                          </span>
                           <span className="text-xl font-bold font-mono text-accent">
                             {formatCurrency(result.suggestedPrice)}
                           </span>
@@ -330,6 +1155,12 @@ const Calculator: React.FC = () => {
                     </div>
                   </CardContent>
                 </Card>
+
+                {/* Explanation */}
+                {result.trace && <HPPExplanation trace={result.trace} />}
+
+                {/* History */}
+                <HPPHistory productId={result.productId} refreshKey={historyKey} />
               </div>
             ) : (
               <Card>
@@ -345,6 +1176,33 @@ const Calculator: React.FC = () => {
           </div>
         </div>
       )}
+
+      <ScenarioDialog
+        open={isScenarioDialogOpen}
+        onOpenChange={setIsScenarioDialogOpen}
+        scenario={editingScenario}
+        materials={materials}
+        laborRates={laborRates}
+        onSave={handleSaveScenario}
+      />
+
+      {/* Delete Scenario Confirmation */}
+      <AlertDialog open={!!deleteScenarioId} onOpenChange={() => setDeleteScenarioId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus Skenario?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tindakan ini tidak dapat dibatalkan. Skenario akan dihapus secara permanen.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteScenario} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
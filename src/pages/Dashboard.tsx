@@ -7,14 +7,18 @@ import {
   DollarSign, 
   Calculator,
   ArrowRight,
-  ShoppingCart 
+  ShoppingCart,
+  Target
 } from 'lucide-react';
 import { StatCard } from '@/components/ui/stat-card';
 import { PageHeader } from '@/components/ui/page-header';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { getMaterials, getProducts, getSales, generateDemoSales } from '@/lib/store';
-import { formatCurrency, formatNumber } from '@/lib/hpp-calculator';
+import { Progress } from '@/components/ui/progress';
+import { getSales, generateDemoSales } from '@/lib/store';
+import { loadHPPData, formatCurrency, formatNumber, type HPPData } from '@/lib/hpp-calculator';
+import { calculateAllProductCosts } from '@/lib/product-costs';
+import { getBusinessBreakEven } from '@/lib/break-even';
 import type { Product, Material, Sale } from '@/types';
 import {
   AreaChart,
@@ -32,19 +36,21 @@ const Dashboard: React.FC = () => {
   const [materials, setMaterials] = useState<Material[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [sales, setSales] = useState<Sale[]>([]);
+  const [hppData, setHppData] = useState<HPPData | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [loadedMaterials, loadedProducts, loadedSales] = await Promise.all([
-          getMaterials(),
-          getProducts(),
-          getSales()
-        ]);
+        // Also loads overheads and rates for the break-even indicator
+        const data = await loadHPPData();
+        const loadedMaterials = data.materials;
+        const loadedProducts = data.products;
+        const loadedSales = data.sales;
         
         setMaterials(loadedMaterials);
         setProducts(loadedProducts);
+        setHppData(data);
         
         // Generate demo sales if no sales exist and there are products
         if (loadedProducts.length > 0 && loadedSales.length === 0) {
@@ -123,6 +129,17 @@ const Dashboard: React.FC = () => {
     return performance.sort((a, b) => b.revenue - a.revenue).slice(0, 5);
   }, [products, sales]);
 
+  // Units left to sell this month at the current product mix
+  const breakEven = useMemo(() => {
+    if (!hppData || products.length === 0) return null;
+    // Products that cannot be costed, e.g. circular recipes, are left out
+    const results = calculateAllProductCosts({ ...hppData, sales })
+      .filter(c => c.hpp)
+      .map(c => ({ product: c.product, hpp: c.hpp! }));
+    if (results.length === 0) return null;
+    return getBusinessBreakEven(results, hppData.overheads, products, sales);
+  }, [hppData, products, sales]);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -174,6 +191,49 @@ const Dashboard: React.FC = () => {
         />
       </div>
 
+      {/* Break-even */}
+      {breakEven && breakEven.fixedCosts > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
+              <Target className="w-5 h-5 text-accent" />
+              Titik Impas Bulan Ini
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {breakEven.breakEvenUnits === null ? (
+              <p className="text-sm text-destructive">
+                Titik impas tidak tercapai: rata-rata harga jual di bawah biaya variabel per unit.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-end justify-between gap-2">
+                  <div>
+                    <p className="text-3xl font-bold font-mono">
+                      {breakEven.unitsRemaining === 0
+                        ? 'Sudah impas'
+                        : `${formatNumber(breakEven.unitsRemaining ?? 0, 0)} unit lagi`}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatNumber(breakEven.unitsSoldThisMonth, 0)} dari {formatNumber(Math.ceil(breakEven.breakEvenUnits), 0)} unit
+                      untuk menutup biaya tetap {formatCurrency(breakEven.fixedCosts)}
+                    </p>
+                  </div>
+                  <div className="text-right text-sm text-muted-foreground">
+                    <p>Pendapatan impas: {formatCurrency(breakEven.breakEvenRevenue ?? 0)}</p>
+                    <p>Pendapatan bulan ini: {formatCurrency(breakEven.revenueThisMonth)}</p>
+                  </div>
+                </div>
+                <Progress value={Math.min(100, (breakEven.unitsSoldThisMonth / breakEven.breakEvenUnits) * 100)} />
+                <p className="text-xs text-muted-foreground">
+                  Berdasarkan komposisi penjualan 30 hari terakhir dan kontribusi rata-rata {formatCurrency(breakEven.weightedContributionMargin)}/unit
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
         {/* Sales Chart */}
@@ -171,6 +171,11 @@ const Forecast: React.FC = () => {
                     <p className="text-sm text-muted-foreground">
                       ~{formatNumber(forecast.averageDailySales, 1)}/hari
                     </p>
+                    {forecast.bundleUnits > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Termasuk {formatNumber(forecast.bundleUnits, 0)} unit dari paket (90 hari terakhir)
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
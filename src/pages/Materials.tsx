@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, Search } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Edit2, Trash2, Search, PackagePlus } from 'lucide-react';
 import { PageHeader } from '@/components/ui/page-header';
 import { DataTable } from '@/components/ui/data-table';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import {
   Dialog,
   DialogContent,
@@ -30,9 +31,24 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
-import { getMaterials, addMaterial, updateMaterial, deleteMaterial } from '@/lib/store';
+import {
+  getMaterials,
+  addMaterial,
+  updateMaterial,
+  deleteMaterial,
+  getMaterialPrices,
+  recordMaterialPrice,
+  getMaterialLots,
+  receiveMaterialLot,
+  deleteMaterialLot,
+  getCostingMethod,
+} from '@/lib/store';
 import { formatCurrency, formatNumber } from '@/lib/hpp-calculator';
-import type { Material, Unit } from '@/types';
+import { recordSnapshots } from '@/lib/hpp-history';
+import { KITCHEN_UNITS } from '@/lib/units';
+import { COSTING_METHODS, DEFAULT_COSTING_METHOD, getInventoryUnitCost, getStockLayers } from '@/lib/inventory-costing';
+import type { Material, MaterialLot, MaterialPriceEntry, CostingMethod, Unit, KitchenUnit, UnitConversion } from '@/types';
+import { LineChart, Line, ResponsiveContainer } from 'recharts';
 
 const UNITS: { value: Unit; label: string }[] = [
   { value: 'g', label: 'Gram (g)' },
@@ -43,8 +59,42 @@ const UNITS: { value: Unit; label: string }[] = [
   { value: 'pack', label: 'Pack' },
 ];
 
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Sparkline of past prices and the change from the previous one
+const PriceTrend: React.FC<{ history: MaterialPriceEntry[] }> = ({ history }) => {
+  if (history.length < 2) return null;
+  const [previous, latest] = history.slice(-2);
+  const change = previous.pricePerUnit > 0
+    ? ((latest.pricePerUnit - previous.pricePerUnit) / previous.pricePerUnit) * 100
+    : 0;
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <div className="h-6 w-16">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={history.map(h => ({ price: h.pricePerUnit }))}>
+            <Line type="stepAfter" dataKey="price" stroke="hsl(var(--primary))" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <span className={change > 0 ? 'text-xs text-destructive' : change < 0 ? 'text-xs text-success' : 'text-xs text-muted-foreground'}>
+        {change > 0 ? '+' : ''}{formatNumber(change, 1)}%
+      </span>
+    </div>
+  );
+};
+
 const Materials: React.FC = () => {
   const [materials, setMaterials] = useState<Material[]>([]);
+  const [priceHistory, setPriceHistory] = useState<MaterialPriceEntry[]>([]);
+  const [lots, setLots] = useState<MaterialLot[]>([]);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(DEFAULT_COSTING_METHOD);
+  const [receivingMaterial, setReceivingMaterial] = useState<Material | null>(null);
+  const [lotForm, setLotForm] = useState({ quantity: 0, unitCost: 0, receivedAt: today(), supplier: '' });
   const [search, setSearch] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingMaterial, setEditingMaterial] = useState<Material | null>(null);
@@ -57,12 +107,25 @@ const Materials: React.FC = () => {
     unit: 'g' as Unit,
     pricePerUnit: 0,
     stockAmount: 0,
+    conversions: [] as UnitConversion[],
+    density: undefined as number | undefined,
+    effectiveDate: today(),
+    supplier: '',
+    note: '',
   });
 
   const loadMaterials = async () => {
     try {
-      const data = await getMaterials();
+      const [data, prices, loadedLots, method] = await Promise.all([
+        getMaterials(),
+        getMaterialPrices(),
+        getMaterialLots(),
+        getCostingMethod(),
+      ]);
       setMaterials(data);
+      setPriceHistory(prices);
+      setLots(loadedLots);
+      setCostingMethod(method);
     } catch (error) {
       console.error('Error loading materials:', error);
     } finally {
@@ -78,6 +141,21 @@ const Materials: React.FC = () => {
     m.name.toLowerCase().includes(search.toLowerCase())
   );
 
+  // Entries already in effect per material, oldest first
+  const historyByMaterial = useMemo(() => {
+    const now = Date.now();
+    const byMaterial = new Map<string, MaterialPriceEntry[]>();
+    for (const entry of priceHistory) {
+      if (entry.effectiveDate.getTime() > now) continue;
+      byMaterial.set(entry.materialId, [...(byMaterial.get(entry.materialId) ?? []), entry]);
+    }
+    return byMaterial;
+  }, [priceHistory]);
+
+  const editingHistory = editingMaterial
+    ? priceHistory.filter(p => p.materialId === editingMaterial.id).slice().reverse()
+    : [];
+
   const handleOpenDialog = (material?: Material) => {
     if (material) {
       setEditingMaterial(material);
@@ -86,14 +164,51 @@ const Materials: React.FC = () => {
         unit: material.unit,
         pricePerUnit: material.pricePerUnit,
         stockAmount: material.stockAmount,
+        conversions: [...material.conversions],
+        density: material.density,
+        effectiveDate: today(),
+        supplier: '',
+        note: '',
       });
     } else {
       setEditingMaterial(null);
-      setFormData({ name: '', unit: 'g', pricePerUnit: 0, stockAmount: 0 });
+      setFormData({
+        name: '',
+        unit: 'g',
+        pricePerUnit: 0,
+        stockAmount: 0,
+        conversions: [],
+        density: undefined,
+        effectiveDate: today(),
+        supplier: '',
+        note: '',
+      });
     }
     setIsDialogOpen(true);
   };
 
+  const handleAddConversion = () => {
+    const usedUnits = formData.conversions.map(c => c.unit);
+    const nextUnit = KITCHEN_UNITS.find(k => !usedUnits.includes(k.value));
+    if (!nextUnit) return;
+    setFormData({
+      ...formData,
+      conversions: [...formData.conversions, { unit: nextUnit.value, quantity: 0, baseUnit: formData.unit }],
+    });
+  };
+
+  const handleRemoveConversion = (index: number) => {
+    const newConversions = [...formData.conversions];
+    newConversions.splice(index, 1);
+    setFormData({ ...formData, conversions: newConversions });
+  };
+
+  const handleConversionChange = (index: number, field: keyof UnitConversion, value: string | number) => {
+    const newConversions = [...formData.conversions];
+    newConversions[index] = { ...newConversions[index], [field]: value };
+    setFormData({ ...formData, conversions: newConversions });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -102,22 +217,112 @@ const Materials: React.FC = () => {
       return;
     }
 
+    const units = formData.conversions.map(c => c.unit);
+    if (new Set(units).size !== units.length) {
+      toast({ title: 'Error', description: 'Setiap satuan dapur hanya boleh didefinisikan sekali', variant: 'destructive' });
+      return;
+    }
+
+    if (!formData.effectiveDate) {
+      toast({ title: 'Error', description: 'Tanggal berlaku harga harus diisi', variant: 'destructive' });
+      return;
+    }
+
+    const { effectiveDate, supplier, note, ...fields } = formData;
+    const validConversions = fields.conversions.filter(c => c.quantity > 0);
+    const payload = {
+      ...fields,
+      conversions: validConversions,
+      density: fields.density && fields.density > 0 ? fields.density : undefined,
+    };
+    const priceEntry = {
+      pricePerUnit: fields.pricePerUnit,
+      effectiveDate: new Date(effectiveDate),
+      supplier: supplier.trim() || undefined,
+      note: note.trim() || undefined,
+    };
+
     if (editingMaterial) {
-      await updateMaterial(editingMaterial.id, formData);
+      const priceChanged = fields.pricePerUnit !== editingMaterial.pricePerUnit;
+      // The current price is set through the history so effective dates are respected
+      await updateMaterial(editingMaterial.id, { ...payload, pricePerUnit: undefined });
+      if (priceChanged) {
+        // Materials created before price history keep their old price as the first entry
+        const hasHistory = priceHistory.some(p => p.materialId === editingMaterial.id);
+        if (!hasHistory && editingMaterial.updatedAt < priceEntry.effectiveDate) {
+          await recordMaterialPrice({
+            materialId: editingMaterial.id,
+            pricePerUnit: editingMaterial.pricePerUnit,
+            effectiveDate: editingMaterial.updatedAt,
+          });
+        }
+        await recordMaterialPrice({ materialId: editingMaterial.id, ...priceEntry });
+      }
       toast({ title: 'Berhasil', description: 'Bahan berhasil diperbarui' });
     } else {
-      await addMaterial(formData);
+      const material = await addMaterial(payload);
+      if (material) {
+        await recordMaterialPrice({ materialId: material.id, ...priceEntry });
+      }
       toast({ title: 'Berhasil', description: 'Bahan berhasil ditambahkan' });
     }
 
     await loadMaterials();
+    recordSnapshots('material');
     setIsDialogOpen(false);
   };
 
+  const handleOpenReceive = (material: Material) => {
+    setReceivingMaterial(material);
+    setLotForm({ quantity: 0, unitCost: material.pricePerUnit, receivedAt: today(), supplier: '' });
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receivingMaterial) return;
+
+    if (lotForm.quantity <= 0 || !lotForm.receivedAt) {
+      toast({ title: 'Error', description: 'Jumlah dan tanggal terima harus diisi', variant: 'destructive' });
+      return;
+    }
+
+    const lot = await receiveMaterialLot({
+      materialId: receivingMaterial.id,
+      quantity: lotForm.quantity,
+      unitCost: lotForm.unitCost,
+      receivedAt: new Date(lotForm.receivedAt),
+      supplier: lotForm.supplier.trim() || undefined,
+    });
+    if (!lot) {
+      toast({ title: 'Error', description: 'Gagal mencatat penerimaan stok', variant: 'destructive' });
+      return;
+    }
+
+    await loadMaterials();
+    recordSnapshots('material');
+    toast({ title: 'Berhasil', description: 'Stok berhasil diterima' });
+    setReceivingMaterial(null);
+  };
+
+  const handleDeleteLot = async (lot: MaterialLot) => {
+    if (!(await deleteMaterialLot(lot))) {
+      toast({ title: 'Error', description: 'Gagal menghapus lot', variant: 'destructive' });
+      return;
+    }
+    await loadMaterials();
+    recordSnapshots('material');
+  };
+
+  // The receive dialog reads stock from the freshly loaded list
+  const receivingLayers = receivingMaterial
+    ? getStockLayers(materials.find(m => m.id === receivingMaterial.id) ?? receivingMaterial, lots)
+    : [];
+
   const handleDelete = async () => {
     if (deleteId) {
       await deleteMaterial(deleteId);
       await loadMaterials();
+      recordSnapshots('material');
       toast({ title: 'Berhasil', description: 'Bahan berhasil dihapus' });
       setDeleteId(null);
     }
@@ -131,13 +336,36 @@ const Materials: React.FC = () => {
       <span className="text-muted-foreground">{row.unit.toUpperCase()}</span>
     )},
     { key: 'pricePerUnit', header: 'Harga/Satuan', cell: (row: Material) => (
-      <span className="font-mono">{formatCurrency(row.pricePerUnit)}</span>
+      <div>
+        <span className="font-mono">{formatCurrency(row.pricePerUnit)}</span>
+        <PriceTrend history={historyByMaterial.get(row.id) ?? []} />
+      </div>
     ), className: 'text-right' },
+    ...(costingMethod !== 'latest' ? [{ key: 'inventoryCost', header: `Biaya ${COSTING_METHODS.find(m => m.value === costingMethod)?.label}`, cell: (row: Material) => (
+      <span className="font-mono">{formatCurrency(getInventoryUnitCost(row, lots, costingMethod))}</span>
+    ), className: 'text-right' }] : []),
+    { key: 'conversions', header: 'Konversi', cell: (row: Material) => (
+      <div className="flex flex-wrap gap-1">
+        {row.conversions.map(c => (
+          <Badge key={c.unit} variant="secondary" className="text-xs">
+            1 {c.unit} = {formatNumber(c.quantity)} {c.baseUnit}
+          </Badge>
+        ))}
+        {row.density && (
+          <Badge variant="outline" className="text-xs">
+            {formatNumber(row.density)} g/ml
+          </Badge>
+        )}
+      </div>
+    )},
     { key: 'stockAmount', header: 'Stok', cell: (row: Material) => (
       <span className="font-mono">{formatNumber(row.stockAmount)} {row.unit}</span>
     ), className: 'text-right' },
     { key: 'actions', header: '', cell: (row: Material) => (
       <div className="flex items-center justify-end gap-2">
+        <Button size="sm" variant="ghost" title="Terima Stok" onClick={(e) => { e.stopPropagation(); handleOpenReceive(row); }}>
+          <PackagePlus className="w-4 h-4" />
+        </Button>
         <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); handleOpenDialog(row); }}>
           <Edit2 className="w-4 h-4" />
         </Button>
@@ -145,7 +373,7 @@ const Materials: React.FC = () => {
           <Trash2 className="w-4 h-4 text-destructive" />
         </Button>
       </div>
-    ), className: 'w-24' },
+    ), className: 'w-36' },
   ];
 
   if (loading) {
@@ -188,7 +416,7 @@ const Materials: React.FC = () => {
 
       {/* Add/Edit Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingMaterial ? 'Edit Bahan' : 'Tambah Bahan Baru'}
@@ -236,6 +464,60 @@ const Materials: React.FC = () => {
                   />
                 </div>
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="effectiveDate">Tanggal Berlaku Harga</Label>
+                  <Input
+                    id="effectiveDate"
+                    type="date"
+                    value={formData.effectiveDate}
+                    onChange={(e) => setFormData({ ...formData, effectiveDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="supplier">Pemasok</Label>
+                  <Input
+                    id="supplier"
+                    value={formData.supplier}
+                    onChange={(e) => setFormData({ ...formData, supplier: e.target.value })}
+                    placeholder="Opsional"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="priceNote">Catatan Harga</Label>
+                <Input
+                  id="priceNote"
+                  value={formData.note}
+                  onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                  placeholder="Opsional, contoh: naik karena musim hujan"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {editingMaterial
+                    ? 'Dicatat ke riwayat harga hanya jika harga berubah. Harga dengan tanggal di masa depan baru dipakai saat tanggalnya tiba.'
+                    : 'Harga awal dicatat sebagai entri pertama riwayat harga.'}
+                </p>
+              </div>
+              {editingHistory.length > 0 && (
+                <div>
+                  <Label>Riwayat Harga</Label>
+                  <div className="mt-2 max-h-40 overflow-y-auto space-y-1">
+                    {editingHistory.map(entry => (
+                      <div key={entry.id} className="flex justify-between gap-2 p-2 bg-muted/50 rounded text-sm">
+                        <div>
+                          <span>{formatDate(entry.effectiveDate)}</span>
+                          {(entry.supplier || entry.note) && (
+                            <p className="text-xs text-muted-foreground">
+                              {[entry.supplier, entry.note].filter(Boolean).join(' · ')}
+                            </p>
+                          )}
+                        </div>
+                        <span className="font-mono">{formatCurrency(entry.pricePerUnit)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
               <div>
                 <Label htmlFor="stock">Jumlah Stok</Label>
                 <Input
@@ -246,6 +528,98 @@ const Materials: React.FC = () => {
                   onChange={(e) => setFormData({ ...formData, stockAmount: Number(e.target.value) })}
                 />
               </div>
+              <div>
+                <Label htmlFor="density">Massa Jenis (g/ml)</Label>
+                <Input
+                  id="density"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.density ?? ''}
+                  onChange={(e) => setFormData({ ...formData, density: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  placeholder="Opsional, contoh: 1.03 untuk susu"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Dipakai untuk mengubah ml ke gram dan sebaliknya
+                </p>
+              </div>
+
+              {/* Kitchen unit conversions */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <Label>Konversi Satuan Dapur</Label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={handleAddConversion}
+                    disabled={formData.conversions.length >= KITCHEN_UNITS.length}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Tambah
+                  </Button>
+                </div>
+                {formData.conversions.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Tanpa konversi, sdm = 15 ml, sdt = 5 ml dan gelas = 250 ml. Butir harus didefinisikan.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {formData.conversions.map((conversion, index) => (
+                      <div key={index} className="flex gap-2 items-center">
+                        <span className="text-sm text-muted-foreground">1</span>
+                        <Select
+                          value={conversion.unit}
+                          onValueChange={(value) => handleConversionChange(index, 'unit', value as KitchenUnit)}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {KITCHEN_UNITS.map(k => (
+                              <SelectItem key={k.value} value={k.value}>
+                                {k.value}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <span className="text-sm text-muted-foreground">=</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={conversion.quantity}
+                          onChange={(e) => handleConversionChange(index, 'quantity', Number(e.target.value))}
+                          className="flex-1"
+                        />
+                        <Select
+                          value={conversion.baseUnit}
+                          onValueChange={(value) => handleConversionChange(index, 'baseUnit', value as Unit)}
+                        >
+                          <SelectTrigger className="w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {UNITS.map(unit => (
+                              <SelectItem key={unit.value} value={unit.value}>
+                                {unit.value}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleRemoveConversion(index)}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
@@ -259,6 +633,99 @@ const Materials: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Receive Stock Dialog */}
+      <Dialog open={!!receivingMaterial} onOpenChange={(open) => !open && setReceivingMaterial(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Terima Stok {receivingMaterial?.name}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleReceive}>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="lotQuantity">Jumlah ({receivingMaterial?.unit})</Label>
+                  <Input
+                    id="lotQuantity"
+                    type="number"
+                    min="0"
+                    value={lotForm.quantity}
+                    onChange={(e) => setLotForm({ ...lotForm, quantity: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="lotCost">Biaya per Satuan (Rp)</Label>
+                  <Input
+                    id="lotCost"
+                    type="number"
+                    min="0"
+                    value={lotForm.unitCost}
+                    onChange={(e) => setLotForm({ ...lotForm, unitCost: Number(e.target.value) })}
+                    className="input-currency"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="lotDate">Tanggal Terima</Label>
+                  <Input
+                    id="lotDate"
+                    type="date"
+                    value={lotForm.receivedAt}
+                    onChange={(e) => setLotForm({ ...lotForm, receivedAt: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="lotSupplier">Pemasok</Label>
+                  <Input
+                    id="lotSupplier"
+                    value={lotForm.supplier}
+                    onChange={(e) => setLotForm({ ...lotForm, supplier: e.target.value })}
+                    placeholder="Opsional"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Stok bertambah sesuai jumlah, dan biaya lot dicatat ke riwayat harga.
+              </p>
+
+              {receivingLayers.length > 0 && (
+                <div>
+                  <Label>Lot di Stok</Label>
+                  <p className="text-xs text-muted-foreground mb-2">
+                    Stok dianggap terpakai dari lot terlama, jadi stok saat ini berasal dari lot terbaru.
+                  </p>
+                  <div className="space-y-1">
+                    {receivingLayers.map(({ lot, quantity }) => (
+                      <div key={lot.id} className="flex items-center justify-between gap-2 p-2 bg-muted/50 rounded text-sm">
+                        <div>
+                          <span>{formatDate(lot.receivedAt)}</span>
+                          {lot.supplier && <span className="text-muted-foreground"> · {lot.supplier}</span>}
+                          <p className="text-xs text-muted-foreground">
+                            Sisa {formatNumber(quantity)} dari {formatNumber(lot.quantity)} {receivingMaterial?.unit}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono">{formatCurrency(lot.unitCost)}</span>
+                          <Button type="button" size="icon" variant="ghost" onClick={() => handleDeleteLot(lot)}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setReceivingMaterial(null)}>
+                Batal
+              </Button>
+              <Button type="submit">Terima</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent>
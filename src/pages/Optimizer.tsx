@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle, Calculator, Clock, Package, RefreshCw, Target, TrendingUp } from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { DataTable } from '@/components/ui/data-table';
+import { StatCard } from '@/components/ui/stat-card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
+import { loadHPPData, formatCurrency, formatNumber } from '@/lib/hpp-calculator';
+import { calculateAllProductCosts } from '@/lib/product-costs';
+import { computeForecast } from '@/lib/forecast';
+import { getBundles, getBundleSales } from '@/lib/store';
+import {
+  DEFAULT_MIN_DEMAND_SHARE,
+  LABOR_RESOURCE_ID,
+  optimizeProductMix,
+  toMixProduct,
+  type MixConstraint,
+  type MixProduct,
+  type MixResource,
+  type MixResult,
+} from '@/lib/optimizer';
+import type { Material } from '@/types';
+
+const PLANNING_DAYS = 7;
+const DEFAULT_LABOR_HOURS = 40;
+
+interface MixRow {
+  product: MixProduct;
+  forecastUnits: number;
+}
+
+const Optimizer: React.FC = () => {
+  const [rows, setRows] = useState<MixRow[]>([]);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [laborHours, setLaborHours] = useState(DEFAULT_LABOR_HOURS);
+  const [result, setResult] = useState<MixResult | null>(null); // Cleared when an input changes
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadMix = async () => {
+    try {
+      const [data, bundles, bundleSales] = await Promise.all([loadHPPData(), getBundles(), getBundleSales()]);
+      const costs = calculateAllProductCosts(data);
+      const costed = costs.filter(c => c.hpp);
+
+      // Demand bounds for the week come from each product's forecast
+      const forecastData = { ...data, bundles, bundleSales };
+      setRows(costed.map(cost => {
+        const forecast = computeForecast(cost.product.id, forecastData, PLANNING_DAYS);
+        const forecastUnits = Math.ceil(forecast?.totalForecast ?? 0);
+        return {
+          product: toMixProduct(
+            cost.hpp!,
+            data.sales,
+            Math.floor(forecastUnits * DEFAULT_MIN_DEMAND_SHARE),
+            forecastUnits
+          ),
+          forecastUnits,
+        };
+      }));
+      setSkipped(costs.filter(c => !c.hpp).map(c => c.product.name));
+      setMaterials(data.materials);
+      setResult(null);
+    } catch (error) {
+      console.error('Error loading product mix:', error);
+      toast({ title: 'Error', description: 'Gagal memuat data optimasi', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMix();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadMix();
+    setRefreshing(false);
+  };
+
+  const handleBoundChange = (productId: string, field: 'minUnits' | 'maxUnits', value: number) => {
+    setRows(rows.map(row =>
+      row.product.productId === productId
+        ? { ...row, product: { ...row.product, [field]: Math.max(0, value) } }
+        : row
+    ));
+    setResult(null);
+  };
+
+  const handleLaborHoursChange = (value: number) => {
+    setLaborHours(Math.max(0, value));
+    setResult(null);
+  };
+
+  // Only materials some product uses can constrain the mix
+  const resources = useMemo((): MixResource[] => {
+    const used = new Set(rows.flatMap(row => Object.keys(row.product.usage)));
+    return [
+      ...materials
+        .filter(m => used.has(m.id))
+        .map(m => ({ id: m.id, name: m.name, unit: m.unit, available: Math.max(0, m.stockAmount) })),
+      { id: LABOR_RESOURCE_ID, name: 'Jam kerja', unit: 'menit', available: laborHours * 60 },
+    ];
+  }, [rows, materials, laborHours]);
+
+  const invalidBounds = rows.filter(row => row.product.minUnits > row.product.maxUnits);
+
+  const handleOptimize = () => {
+    setResult(optimizeProductMix(rows.map(row => row.product), resources));
+  };
+
+  const bindingConstraints = result?.constraints.filter(c => c.binding) ?? [];
+  const totalUnits = result ? Object.values(result.units).reduce((sum, units) => sum + units, 0) : 0;
+
+  const formatAmount = (constraint: MixConstraint, amount: number) =>
+    constraint.kind === 'resource' && constraint.id === LABOR_RESOURCE_ID
+      ? `${formatNumber(amount / 60, 1)} jam`
+      : `${formatNumber(amount)} ${constraint.unit}`;
+
+  const columns = [
+    { key: 'name', header: 'Produk', sortValue: (row: MixRow) => row.product.name.toLowerCase(), cell: (row: MixRow) => (
+      <div>
+        <p className="font-medium">{row.product.name}</p>
+        <p className="text-xs text-muted-foreground">Prediksi {formatNumber(row.forecastUnits, 0)} unit/minggu</p>
+      </div>
+    )},
+    { key: 'price', header: 'Harga Jual', sortValue: (row: MixRow) => row.product.price, cell: (row: MixRow) => (
+      <span className="font-mono">{formatCurrency(row.product.price)}</span>
+    ), className: 'text-right' },
+    { key: 'margin', header: 'Kontribusi/Unit', sortValue: (row: MixRow) => row.product.contributionMargin, cell: (row: MixRow) => (
+      <span className={row.product.contributionMargin < 0 ? 'font-mono text-destructive' : 'font-mono'}>
+        {formatCurrency(row.product.contributionMargin)}
+      </span>
+    ), className: 'text-right' },
+    { key: 'minUnits', header: 'Min', cell: (row: MixRow) => (
+      <Input
+        type="number"
+        min="0"
+        value={row.product.minUnits}
+        onChange={(e) => handleBoundChange(row.product.productId, 'minUnits', Number(e.target.value))}
+        className="w-20 ml-auto text-right"
+      />
+    ), className: 'text-right' },
+    { key: 'maxUnits', header: 'Maks', cell: (row: MixRow) => (
+      <Input
+        type="number"
+        min="0"
+        value={row.product.maxUnits}
+        onChange={(e) => handleBoundChange(row.product.productId, 'maxUnits', Number(e.target.value))}
+        className="w-20 ml-auto text-right"
+      />
+    ), className: 'text-right' },
+    { key: 'units', header: 'Produksi', sortValue: (row: MixRow) => result?.units[row.product.productId] ?? null, cell: (row: MixRow) => (
+      <span className="font-mono font-semibold">
+        {result && result.status !== 'infeasible' ? formatNumber(result.units[row.product.productId] ?? 0, 0) : '-'}
+      </span>
+    ), className: 'text-right' },
+    { key: 'contribution', header: 'Total Kontribusi', sortValue: (row: MixRow) => (result?.units[row.product.productId] ?? 0) * row.product.contributionMargin, cell: (row: MixRow) => (
+      <span className="font-mono">
+        {result && result.status !== 'infeasible'
+          ? formatCurrency((result.units[row.product.productId] ?? 0) * row.product.contributionMargin)
+          : '-'}
+      </span>
+    ), className: 'text-right' },
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fade-in">
+      <PageHeader
+        title="Optimasi Produksi"
+        description="Rekomendasi jumlah produksi minggu ini untuk laba terbesar dari stok bahan dan jam kerja yang ada"
+      >
+        <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+          <RefreshCw className={refreshing ? 'w-4 h-4 mr-2 animate-spin' : 'w-4 h-4 mr-2'} />
+          Muat Ulang
+        </Button>
+      </PageHeader>
+
+      {rows.length === 0 ? (
+        <Card>
+          <CardContent className="py-16 text-center">
+            <Package className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              Belum ada produk yang bisa dihitung. Lengkapi resep produk terlebih dahulu.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          <Card>
+            <CardContent className="py-4">
+              <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+                <div className="w-full sm:w-48">
+                  <Label htmlFor="laborHours" className="text-xs text-muted-foreground mb-2 block">
+                    Jam Kerja Tersedia (minggu ini)
+                  </Label>
+                  <Input
+                    id="laborHours"
+                    type="number"
+                    min="0"
+                    value={laborHours}
+                    onChange={(e) => handleLaborHoursChange(Number(e.target.value))}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground flex-1">
+                  Batas maksimum diambil dari prediksi penjualan {PLANNING_DAYS} hari, batas minimum
+                  {` ${formatNumber(DEFAULT_MIN_DEMAND_SHARE * 100, 0)}%`} darinya. Stok bahan dari data bahan baku.
+                  {skipped.length > 0 && ` Tidak diikutkan karena resep belum lengkap: ${skipped.join(', ')}.`}
+                </p>
+                <Button onClick={handleOptimize} disabled={invalidBounds.length > 0}>
+                  <Calculator className="w-4 h-4 mr-2" />
+                  Hitung
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {invalidBounds.length > 0 && (
+            <div className="flex items-center gap-2 p-3 bg-destructive/10 border border-destructive/30 rounded-lg text-sm text-destructive">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              Batas minimum melebihi maksimum untuk {invalidBounds.map(row => row.product.name).join(', ')}
+            </div>
+          )}
+
+          {result?.status === 'infeasible' && (
+            <div className="flex items-center gap-2 p-3 bg-destructive/10 border border-destructive/30 rounded-lg text-sm text-destructive">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {result.infeasibleReason}. Turunkan batas minimum atau tambah stok.
+            </div>
+          )}
+
+          {result && result.status !== 'infeasible' && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <StatCard
+                title="Total Kontribusi"
+                value={formatCurrency(result.totalContribution)}
+                subtitle={result.status === 'optimal' ? 'laba kotor terbesar yang mungkin' : 'pencarian dihentikan, mungkin belum optimal'}
+                icon={<TrendingUp className="w-6 h-6 text-success" />}
+              />
+              <StatCard
+                title="Total Produksi"
+                value={`${formatNumber(totalUnits, 0)} unit`}
+                subtitle={`${rows.length} produk`}
+                icon={<Package className="w-6 h-6 text-primary" />}
+              />
+              <StatCard
+                title="Kendala Mengikat"
+                value={bindingConstraints.length}
+                subtitle="membatasi laba lebih besar"
+                icon={<Target className="w-6 h-6 text-warning" />}
+              />
+            </div>
+          )}
+
+          <DataTable
+            columns={columns}
+            data={rows}
+            keyExtractor={(row) => row.product.productId}
+          />
+
+          {result && result.status !== 'infeasible' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Kendala Mengikat</CardTitle>
+                <CardDescription>Yang perlu ditambah agar laba bisa naik</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {bindingConstraints.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Tidak ada kendala yang mengikat.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {bindingConstraints.map(constraint => (
+                      <div
+                        key={`${constraint.kind}:${constraint.id}`}
+                        className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                      >
+                        <div className="flex items-center gap-2">
+                          {constraint.kind === 'resource' && constraint.id === LABOR_RESOURCE_ID
+                            ? <Clock className="w-4 h-4 text-muted-foreground" />
+                            : constraint.kind === 'resource'
+                              ? <Package className="w-4 h-4 text-muted-foreground" />
+                              : <TrendingUp className="w-4 h-4 text-muted-foreground" />}
+                          <span className="font-medium">{constraint.label}</span>
+                          <Badge variant="outline" className="text-xs font-normal">
+                            {constraint.kind === 'resource' ? 'Sumber daya' : 'Permintaan'}
+                          </Badge>
+                        </div>
+                        <span className="font-mono text-sm">
+                          {formatAmount(constraint, constraint.used)} / {formatAmount(constraint, constraint.limit)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Optimizer;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, ListOrdered, Package, RefreshCw, TrendingUp } from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { DataTable } from '@/components/ui/data-table';
+import { StatCard } from '@/components/ui/stat-card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { loadHPPData, formatCurrency, formatNumber } from '@/lib/hpp-calculator';
+import { calculateAllProductCosts, type ProductCost } from '@/lib/product-costs';
+
+const ProductCosts: React.FC = () => {
+  const [costs, setCosts] = useState<ProductCost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadCosts = async () => {
+    try {
+      const data = await loadHPPData();
+      setCosts(calculateAllProductCosts(data));
+    } catch (error) {
+      console.error('Error calculating product costs:', error);
+      toast({ title: 'Error', description: 'Gagal menghitung HPP produk', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCosts();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadCosts();
+    setRefreshing(false);
+  };
+
+  const summary = useMemo(() => {
+    const costed = costs.filter(c => c.hpp);
+    const withMargin = costed.filter(c => c.realMarginPercent !== null);
+    return {
+      costed: costed.length,
+      failed: costs.length - costed.length,
+      lossMaking: costed.filter(c => c.isLoss).length,
+      averageMargin: withMargin.length > 0
+        ? withMargin.reduce((sum, c) => sum + c.realMarginPercent!, 0) / withMargin.length
+        : null,
+    };
+  }, [costs]);
+
+  const columns = [
+    { key: 'name', header: 'Produk', sortValue: (row: ProductCost) => row.product.name.toLowerCase(), cell: (row: ProductCost) => (
+      <div>
+        <p className="font-medium">
+          {row.product.name}
+          {row.product.category && (
+            <Badge variant="outline" className="ml-2 text-xs font-normal">{row.product.category}</Badge>
+          )}
+        </p>
+        {row.error && <p className="text-xs text-destructive">{row.error}</p>}
+      </div>
+    )},
+    { key: 'hpp', header: 'HPP/Unit', sortValue: (row: ProductCost) => row.hpp?.breakdown.hppPerUnit ?? null, cell: (row: ProductCost) => (
+      <div>
+        <span className="font-mono font-medium">{row.hpp ? formatCurrency(row.hpp.breakdown.hppPerUnit) : '-'}</span>
+        {row.hpp?.variants && row.averagePrice !== null && (
+          <p className="text-xs text-muted-foreground">campuran varian {formatCurrency(row.soldHppPerUnit)}</p>
+        )}
+      </div>
+    ), className: 'text-right' },
+    { key: 'suggestedPrice', header: 'Harga Rekomendasi', sortValue: (row: ProductCost) => row.hpp?.suggestedPrice ?? null, cell: (row: ProductCost) => (
+      <span className="font-mono">{row.hpp ? formatCurrency(row.hpp.suggestedPrice) : '-'}</span>
+    ), className: 'text-right' },
+    { key: 'averagePrice', header: 'Harga Jual Rata-rata', sortValue: (row: ProductCost) => row.averagePrice, cell: (row: ProductCost) => (
+      row.averagePrice !== null
+        ? <span className="font-mono">{formatCurrency(row.averagePrice)}</span>
+        : <span className="text-sm text-muted-foreground">Belum terjual</span>
+    ), className: 'text-right' },
+    { key: 'realMargin', header: 'Margin Riil', sortValue: (row: ProductCost) => row.realMarginPercent, cell: (row: ProductCost) => (
+      row.realMarginPercent !== null ? (
+        <span className={row.realMarginPercent < 0 ? 'font-mono text-destructive' : 'font-mono'}>
+          {formatNumber(row.realMarginPercent, 1)}%
+        </span>
+      ) : (
+        <span className="text-muted-foreground">-</span>
+      )
+    ), className: 'text-right' },
+    { key: 'status', header: 'Status', sortValue: (row: ProductCost) => (row.isLoss ? 0 : 1), cell: (row: ProductCost) => (
+      row.isLoss ? (
+        <Badge variant="destructive" className="gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          Rugi
+        </Badge>
+      ) : row.hpp ? (
+        <Badge variant="secondary">Untung</Badge>
+      ) : null
+    )},
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fade-in">
+      <PageHeader
+        title="HPP Semua Produk"
+        description="Hitung HPP seluruh produk sekaligus dan bandingkan dengan harga jual riil"
+      >
+        <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+          <RefreshCw className={refreshing ? 'w-4 h-4 mr-2 animate-spin' : 'w-4 h-4 mr-2'} />
+          Hitung Ulang
+        </Button>
+      </PageHeader>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <StatCard
+          title="Produk Dihitung"
+          value={summary.costed}
+          subtitle={summary.failed > 0 ? `${summary.failed} gagal dihitung` : 'semua produk'}
+          icon={<ListOrdered className="w-6 h-6 text-primary" />}
+        />
+        <StatCard
+          title="Produk Merugi"
+          value={summary.lossMaking}
+          subtitle="dijual di bawah HPP"
+          icon={<AlertTriangle className="w-6 h-6 text-destructive" />}
+        />
+        <StatCard
+          title="Rata-rata Margin Riil"
+          value={summary.averageMargin !== null ? `${formatNumber(summary.averageMargin, 1)}%` : '-'}
+          subtitle="dari harga jual rata-rata"
+          icon={<TrendingUp className="w-6 h-6 text-success" />}
+        />
+      </div>
+
+      {costs.length === 0 ? (
+        <div className="bg-card rounded-xl border border-border py-16 text-center">
+          <Package className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground mb-4">Belum ada produk untuk dihitung.</p>
+          <Link to="/products">
+            <Button>Tambah Produk</Button>
+          </Link>
+        </div>
+      ) : (
+        <DataTable
+          columns={columns}
+          data={costs}
+          keyExtractor={(row) => row.product.id}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProductCosts;
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, Search, Package } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Edit2, Trash2, Search, Package, AlertTriangle } from 'lucide-react';
 import { PageHeader } from '@/components/ui/page-header';
 import { DataTable } from '@/components/ui/data-table';
 import { Button } from '@/components/ui/button';
@@ -17,7 +17,9 @@ import {
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
@@ -32,14 +34,46 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
-import { getProducts, addProduct, updateProduct, deleteProduct, getMaterials } from '@/lib/store';
-import { formatNumber } from '@/lib/hpp-calculator';
-import type { Product, Material, ProductIngredient } from '@/types';
+import { VariantEditor } from '@/components/products/VariantEditor';
+import { getProducts, addProduct, updateProduct, deleteProduct, getMaterials, getLaborRates, getOverheads, getMachines, getMaterialPrices, getMaterialLots, getCostingMethod } from '@/lib/store';
+import { findRecipeCycle, formatNumber } from '@/lib/hpp-calculator';
+import { recordSnapshots } from '@/lib/hpp-history';
+import { DEFAULT_COSTING_METHOD } from '@/lib/inventory-costing';
+import { hasBlockingIssues, validateProduct, type HPPIssue } from '@/lib/hpp-validation';
+import { areUnitsCompatible, canResolveUnit, getCompatibleUnits, getRecipeUnits, isKitchenUnit } from '@/lib/units';
+import type { Product, Material, ProductIngredient, ProductVariant, RecipeUnit, Unit, LaborRate, LaborStep, LaborBasis, Overhead, Machine, MachineUsage, MaterialPriceEntry, MaterialLot, CostingMethod } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
+const YIELD_UNITS: Unit[] = ['pcs', 'g', 'kg', 'ml', 'l', 'pack'];
+
+const sumStepMinutes = (steps: LaborStep[], basis: LaborBasis) =>
+  steps.filter(step => step.basis === basis).reduce((sum, step) => sum + step.minutes, 0);
+
+// Marks products whose HPP cannot be trusted; hover lists the issues
+const IssueBadge: React.FC<{ issues: HPPIssue[] }> = ({ issues }) => {
+  if (issues.length === 0) return null;
+  const blocking = hasBlockingIssues(issues);
+  return (
+    <Badge
+      variant={blocking ? 'destructive' : 'outline'}
+      className="mt-1 gap-1 text-xs font-normal"
+      title={issues.map(issue => issue.message).join('\n')}
+    >
+      <AlertTriangle className="w-3 h-3" />
+      {blocking ? 'Resep tidak valid' : 'Perlu dicek'}
+    </Badge>
+  );
+};
+
 const Products: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [materials, setMaterials] = useState<Material[]>([]);
+  const [laborRates, setLaborRates] = useState<LaborRate[]>([]);
+  const [overheads, setOverheads] = useState<Overhead[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [priceHistory, setPriceHistory] = useState<MaterialPriceEntry[]>([]);
+  const [lots, setLots] = useState<MaterialLot[]>([]);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(DEFAULT_COSTING_METHOD);
   const [search, setSearch] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
@@ -50,19 +84,47 @@ const Products: React.FC = () => {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
+    category: '',
     yieldPerBatch: 1,
+    yieldUnit: 'pcs' as Unit,
+    rejectRate: 0,
     laborMinutes: 30,
+    batchMinutes: 0,
+    laborSteps: [] as LaborStep[],
+    machineUsages: [] as MachineUsage[],
     ingredients: [] as ProductIngredient[],
+    variants: [] as ProductVariant[],
   });
 
   const loadData = async () => {
     try {
-      const [loadedProducts, loadedMaterials] = await Promise.all([
+      const [
+        loadedProducts,
+        loadedMaterials,
+        loadedLaborRates,
+        loadedOverheads,
+        loadedMachines,
+        loadedPriceHistory,
+        loadedLots,
+        loadedCostingMethod,
+      ] = await Promise.all([
         getProducts(),
-        getMaterials()
+        getMaterials(),
+        getLaborRates(),
+        getOverheads(),
+        getMachines(),
+        getMaterialPrices(),
+        getMaterialLots(),
+        getCostingMethod()
       ]);
       setProducts(loadedProducts);
       setMaterials(loadedMaterials);
+      setLaborRates(loadedLaborRates);
+      setOverheads(loadedOverheads);
+      setMachines(loadedMachines);
+      setPriceHistory(loadedPriceHistory);
+      setLots(loadedLots);
+      setCostingMethod(loadedCostingMethod);
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -78,24 +140,43 @@ const Products: React.FC = () => {
     p.name.toLowerCase().includes(search.toLowerCase())
   );
 
+  const issuesByProduct = useMemo(() => new Map(products.map(product => [
+    product.id,
+    validateProduct(product, { products, materials, priceHistory, lots, costingMethod, laborRates, machines, overheads }),
+  ])), [products, materials, priceHistory, lots, costingMethod, laborRates, machines, overheads]);
+
   const handleOpenDialog = (product?: Product) => {
     if (product) {
       setEditingProduct(product);
       setFormData({
         name: product.name,
         description: product.description,
+        category: product.category,
         yieldPerBatch: product.yieldPerBatch,
+        yieldUnit: product.yieldUnit ?? 'pcs',
+        rejectRate: product.rejectRate ?? 0,
         laborMinutes: product.laborMinutes,
+        batchMinutes: product.batchMinutes,
+        laborSteps: [...product.laborSteps],
+        machineUsages: [...product.machineUsages],
         ingredients: [...product.ingredients],
+        variants: [...product.variants],
       });
     } else {
       setEditingProduct(null);
       setFormData({
         name: '',
         description: '',
+        category: '',
         yieldPerBatch: 1,
+        yieldUnit: 'pcs',
+        rejectRate: 0,
         laborMinutes: 30,
+        batchMinutes: 0,
+        laborSteps: [],
+        machineUsages: [],
         ingredients: [],
+        variants: [],
       });
     }
     setIsDialogOpen(true);
@@ -111,6 +192,46 @@ const Products: React.FC = () => {
     });
   };
 
+  const handleAddLaborStep = () => {
+    setFormData({
+      ...formData,
+      laborSteps: [
+        ...formData.laborSteps,
+        { id: uuidv4(), name: '', minutes: 0, basis: 'unit', laborRateId: laborRates[0]?.id ?? '' },
+      ],
+    });
+  };
+
+  const handleRemoveLaborStep = (index: number) => {
+    const newSteps = [...formData.laborSteps];
+    newSteps.splice(index, 1);
+    setFormData({ ...formData, laborSteps: newSteps });
+  };
+
+  const handleLaborStepChange = (index: number, field: keyof LaborStep, value: string | number) => {
+    const newSteps = [...formData.laborSteps];
+    newSteps[index] = { ...newSteps[index], [field]: value };
+    setFormData({ ...formData, laborSteps: newSteps });
+  };
+
+  const handleAddMachineUsage = () => {
+    setFormData({
+      ...formData,
+      machineUsages: [...formData.machineUsages, { machineId: machines[0]?.id ?? '', minutes: 0 }],
+    });
+  };
+
+  const handleRemoveMachineUsage = (index: number) => {
+    setFormData({ ...formData, machineUsages: formData.machineUsages.filter((_, i) => i !== index) });
+  };
+
+  const handleMachineUsageChange = (index: number, changes: Partial<MachineUsage>) => {
+    setFormData({
+      ...formData,
+      machineUsages: formData.machineUsages.map((usage, i) => (i === index ? { ...usage, ...changes } : usage)),
+    });
+  };
+
   const handleRemoveIngredient = (index: number) => {
     const newIngredients = [...formData.ingredients];
     newIngredients.splice(index, 1);
@@ -123,6 +244,67 @@ const Products: React.FC = () => {
     setFormData({ ...formData, ingredients: newIngredients });
   };
 
+  // Source values are encoded as 'material:<id>' or 'product:<id>'
+  const getIngredientSource = (ing: ProductIngredient): string => {
+    if (ing.subProductId) return `product:${ing.subProductId}`;
+    return ing.materialId ? `material:${ing.materialId}` : '';
+  };
+
+  const handleIngredientSourceChange = (index: number, source: string) => {
+    const [kind, id] = source.split(':');
+    const current = formData.ingredients[index];
+    const newIngredients = [...formData.ingredients];
+
+    if (kind === 'product') {
+      const yieldUnit = products.find(p => p.id === id)?.yieldUnit ?? 'pcs';
+      newIngredients[index] = {
+        ...current,
+        materialId: '',
+        subProductId: id,
+        unit: current.unit && !isKitchenUnit(current.unit) && areUnitsCompatible(current.unit, yieldUnit)
+          ? current.unit
+          : yieldUnit,
+      };
+    } else {
+      const material = materials.find(m => m.id === id);
+      newIngredients[index] = {
+        ...current,
+        materialId: id,
+        subProductId: undefined,
+        // Keep the chosen unit only if it still fits the new material
+        unit: material && current.unit && canResolveUnit(current.unit, material)
+          ? current.unit
+          : material?.unit,
+      };
+    }
+    setFormData({ ...formData, ingredients: newIngredients });
+  };
+
+  const isIngredientUnitValid = (ing: ProductIngredient): boolean => {
+    if (!ing.unit) return true;
+    if (ing.subProductId) {
+      const subProduct = products.find(p => p.id === ing.subProductId);
+      return !subProduct || (!isKitchenUnit(ing.unit) && areUnitsCompatible(ing.unit, subProduct.yieldUnit ?? 'pcs'));
+    }
+    const material = materials.find(m => m.id === ing.materialId);
+    return !material || canResolveUnit(ing.unit, material);
+  };
+
+  const getIngredientUnitOptions = (ing: ProductIngredient): RecipeUnit[] => {
+    if (ing.subProductId) {
+      const subProduct = products.find(p => p.id === ing.subProductId);
+      return subProduct ? getCompatibleUnits(subProduct.yieldUnit ?? 'pcs') : [];
+    }
+    const material = materials.find(m => m.id === ing.materialId);
+    return material ? getRecipeUnits(material) : [];
+  };
+
+  const getIngredientUnit = (ing: ProductIngredient): RecipeUnit | undefined => {
+    if (ing.unit) return ing.unit;
+    if (ing.subProductId) return products.find(p => p.id === ing.subProductId)?.yieldUnit ?? 'pcs';
+    return materials.find(m => m.id === ing.materialId)?.unit;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -131,22 +313,82 @@ const Products: React.FC = () => {
       return;
     }
 
+    if (formData.rejectRate < 0 || formData.rejectRate >= 100) {
+      toast({ title: 'Error', description: 'Persentase produk gagal harus antara 0 dan 99', variant: 'destructive' });
+      return;
+    }
+
+    if (formData.ingredients.some(i => (i.wastePercent ?? 0) < 0 || (i.wastePercent ?? 0) >= 100)) {
+      toast({ title: 'Error', description: 'Persentase susut bahan harus antara 0 dan 99', variant: 'destructive' });
+      return;
+    }
+
     if (formData.ingredients.length === 0) {
       toast({ title: 'Error', description: 'Tambahkan minimal satu bahan', variant: 'destructive' });
       return;
     }
 
-    const validIngredients = formData.ingredients.filter(i => i.materialId && i.quantity > 0);
+    const validIngredients = formData.ingredients.filter(i => (i.materialId || i.subProductId) && i.quantity > 0);
+
+    const incompatible = validIngredients.find(i => !isIngredientUnitValid(i));
+    if (incompatible) {
+      toast({
+        title: 'Error',
+        description: `Satuan ${incompatible.unit} tidak sesuai dengan bahan ${getIngredientName(incompatible)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
 
+    // A new product cannot be part of a cycle yet, nothing references it
     if (editingProduct) {
-      await updateProduct(editingProduct.id, { ...formData, ingredients: validIngredients });
+      const candidate = { ...editingProduct, ingredients: validIngredients };
+      const cycle = findRecipeCycle(
+        editingProduct.id,
+        products.map(p => (p.id === editingProduct.id ? candidate : p))
+      );
+      if (cycle) {
+        const names = cycle.map(id => products.find(p => p.id === id)?.name ?? id);
+        toast({ title: 'Error', description: `Resep melingkar: ${names.join(' → ')}`, variant: 'destructive' });
+        return;
+      }
+    }
+
+    const validLaborSteps = formData.laborSteps.filter(step => step.name.trim() !== '' && step.minutes > 0);
+    if (validLaborSteps.some(step => !step.laborRateId)) {
+      toast({ title: 'Error', description: 'Pilih tarif tenaga kerja untuk setiap tahap', variant: 'destructive' });
+      return;
+    }
+
+    const validVariants = formData.variants
+      .filter(v => v.name.trim() !== '')
+      .map(v => ({ ...v, extraIngredients: v.extraIngredients.filter(e => e.materialId && e.quantity > 0) }));
+    if (validVariants.some(v => v.scaleFactor <= 0)) {
+      toast({ title: 'Error', description: 'Skala resep varian harus lebih dari 0', variant: 'destructive' });
+      return;
+    }
+
+    const payload = {
+      ...formData,
+      ingredients: validIngredients,
+      laborSteps: validLaborSteps,
+      machineUsages: formData.machineUsages.filter(usage => usage.machineId && usage.minutes > 0),
+      variants: validVariants,
+      // Keep the totals in sync so other consumers see the routed minutes
+      laborMinutes: validLaborSteps.length > 0 ? sumStepMinutes(validLaborSteps, 'unit') : formData.laborMinutes,
+      batchMinutes: validLaborSteps.length > 0 ? sumStepMinutes(validLaborSteps, 'batch') : formData.batchMinutes,
+    };
+
+    if (editingProduct) {
+      await updateProduct(editingProduct.id, payload);
       toast({ title: 'Berhasil', description: 'Produk berhasil diperbarui' });
     } else {
-      await addProduct({ ...formData, ingredients: validIngredients });
+      await addProduct(payload);
       toast({ title: 'Berhasil', description: 'Produk berhasil ditambahkan' });
     }
 
     await loadData();
+    recordSnapshots('product');
     setIsDialogOpen(false);
   };
 
@@ -154,15 +396,22 @@ const Products: React.FC = () => {
     if (deleteId) {
       await deleteProduct(deleteId);
       await loadData();
+      recordSnapshots('product');
       toast({ title: 'Berhasil', description: 'Produk berhasil dihapus' });
       setDeleteId(null);
     }
   };
 
-  const getMaterialName = (materialId: string) => {
-    return materials.find(m => m.id === materialId)?.name || 'Unknown';
+  const getIngredientName = (ing: ProductIngredient) => {
+    if (ing.subProductId) {
+      return products.find(p => p.id === ing.subProductId)?.name || 'Unknown';
+    }
+    return materials.find(m => m.id === ing.materialId)?.name || 'Unknown';
   };
 
+  const subRecipeOptions = products.filter(p => p.id !== editingProduct?.id);
+  const categories = [...new Set(products.map(p => p.category).filter(Boolean))];
+
   const columns = [
     { key: 'name', header: 'Nama Produk', cell: (row: Product) => (
       <div className="flex items-center gap-3">
@@ -170,16 +419,25 @@ const Products: React.FC = () => {
           <Package className="w-5 h-5 text-primary" />
         </div>
         <div>
-          <p className="font-medium">{row.name}</p>
+          <p className="font-medium">
+            {row.name}
+            {row.category && (
+              <Badge variant="outline" className="ml-2 text-xs font-normal">{row.category}</Badge>
+            )}
+          </p>
           <p className="text-xs text-muted-foreground">{row.description || 'Tidak ada deskripsi'}</p>
+          {row.variants.length > 0 && (
+            <p className="text-xs text-muted-foreground">Varian: {row.variants.map(v => v.name).join(', ')}</p>
+          )}
+          <IssueBadge issues={issuesByProduct.get(row.id) ?? []} />
         </div>
       </div>
     )},
     { key: 'ingredients', header: 'Bahan', cell: (row: Product) => (
       <div className="flex flex-wrap gap-1">
         {row.ingredients.slice(0, 3).map((ing, i) => (
-          <Badge key={i} variant="secondary" className="text-xs">
-            {getMaterialName(ing.materialId)}
+          <Badge key={i} variant={ing.subProductId ? 'outline' : 'secondary'} className="text-xs">
+            {getIngredientName(ing)}
           </Badge>
         ))}
         {row.ingredients.length > 3 && (
@@ -190,10 +448,15 @@ const Products: React.FC = () => {
       </div>
     )},
     { key: 'yield', header: 'Yield', cell: (row: Product) => (
-      <span className="font-mono">{formatNumber(row.yieldPerBatch)} unit</span>
+      <span className="font-mono">{formatNumber(row.yieldPerBatch)} {row.yieldUnit ?? 'unit'}</span>
     ), className: 'text-right' },
     { key: 'labor', header: 'Waktu Kerja', cell: (row: Product) => (
-      <span className="font-mono">{row.laborMinutes} menit</span>
+      <div className="font-mono">
+        <p>{formatNumber(row.laborMinutes)} menit/unit</p>
+        {row.batchMinutes > 0 && (
+          <p className="text-xs text-muted-foreground">+{formatNumber(row.batchMinutes)} menit/batch</p>
+        )}
+      </div>
     ), className: 'text-right' },
     { key: 'actions', header: '', cell: (row: Product) => (
       <div className="flex items-center justify-end gap-2">
@@ -266,17 +529,53 @@ const Products: React.FC = () => {
                   />
                 </div>
                 <div className="col-span-2 sm:col-span-1">
-                  <Label htmlFor="yield">Yield per Batch (unit)</Label>
-                  <Input
-                    id="yield"
-                    type="number"
-                    min="1"
-                    value={formData.yieldPerBatch}
-                    onChange={(e) => setFormData({ ...formData, yieldPerBatch: Number(e.target.value) })}
-                  />
+                  <Label htmlFor="yield">Yield per Batch</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="yield"
+                      type="number"
+                      min="1"
+                      value={formData.yieldPerBatch}
+                      onChange={(e) => setFormData({ ...formData, yieldPerBatch: Number(e.target.value) })}
+                    />
+                    <Select
+                      value={formData.yieldUnit}
+                      onValueChange={(value) => setFormData({ ...formData, yieldUnit: value as Unit })}
+                    >
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {YIELD_UNITS.map(u => (
+                          <SelectItem key={u} value={u}>
+                            {u}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Gunakan g atau ml untuk adonan/isian yang dipakai sebagai sub-resep
+                  </p>
                 </div>
               </div>
 
+              <div>
+                <Label htmlFor="category">Kategori</Label>
+                <Input
+                  id="category"
+                  list="product-categories"
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                  placeholder="Contoh: Kue Basah, Frozen, Minuman"
+                />
+                <datalist id="product-categories">
+                  {categories.map(c => (
+                    <option key={c} value={c} />
+                  ))}
+                </datalist>
+              </div>
+
               <div>
                 <Label htmlFor="description">Deskripsi</Label>
                 <Textarea
@@ -288,15 +587,193 @@ const Products: React.FC = () => {
                 />
               </div>
 
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="labor">Kerja per Unit (menit)</Label>
+                  <Input
+                    id="labor"
+                    type="number"
+                    min="0"
+                    value={formData.laborSteps.length > 0 ? sumStepMinutes(formData.laborSteps, 'unit') : formData.laborMinutes}
+                    onChange={(e) => setFormData({ ...formData, laborMinutes: Number(e.target.value) })}
+                    disabled={formData.laborSteps.length > 0}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="batch">Persiapan per Batch (menit)</Label>
+                  <Input
+                    id="batch"
+                    type="number"
+                    min="0"
+                    value={formData.laborSteps.length > 0 ? sumStepMinutes(formData.laborSteps, 'batch') : formData.batchMinutes}
+                    onChange={(e) => setFormData({ ...formData, batchMinutes: Number(e.target.value) })}
+                    disabled={formData.laborSteps.length > 0}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reject">Produk Gagal per Batch (%)</Label>
+                  <Input
+                    id="reject"
+                    type="number"
+                    min="0"
+                    max="99"
+                    step="0.1"
+                    value={formData.rejectRate}
+                    onChange={(e) => setFormData({ ...formData, rejectRate: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              {/* Labor Routing Section */}
               <div>
-                <Label htmlFor="labor">Waktu Kerja (menit per batch)</Label>
-                <Input
-                  id="labor"
-                  type="number"
-                  min="1"
-                  value={formData.laborMinutes}
-                  onChange={(e) => setFormData({ ...formData, laborMinutes: Number(e.target.value) })}
-                />
+                <div className="flex items-center justify-between mb-3">
+                  <Label>Tahapan Kerja</Label>
+                  <Button type="button" size="sm" variant="outline" onClick={handleAddLaborStep}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Tambah Tahap
+                  </Button>
+                </div>
+
+                {formData.laborSteps.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Tanpa tahapan, waktu kerja di atas dihitung dengan tarif pertama di Pengaturan.
+                    Waktu per batch (panaskan oven, bersih-bersih) dibagi ke hasil batch.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {formData.laborSteps.map((step, index) => (
+                      <div key={step.id} className="flex gap-3 items-end p-3 bg-muted/50 rounded-lg">
+                        <div className="flex-1">
+                          <Label className="text-xs">Tahap</Label>
+                          <Input
+                            value={step.name}
+                            onChange={(e) => handleLaborStepChange(index, 'name', e.target.value)}
+                            placeholder="Contoh: Mixing"
+                          />
+                        </div>
+                        <div className="w-24">
+                          <Label className="text-xs">Menit</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            value={step.minutes}
+                            onChange={(e) => handleLaborStepChange(index, 'minutes', Number(e.target.value))}
+                          />
+                        </div>
+                        <div className="w-28">
+                          <Label className="text-xs">Per</Label>
+                          <Select
+                            value={step.basis}
+                            onValueChange={(value) => handleLaborStepChange(index, 'basis', value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="unit">Unit</SelectItem>
+                              <SelectItem value="batch">Batch</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="w-36">
+                          <Label className="text-xs">Tarif</Label>
+                          <Select
+                            value={step.laborRateId}
+                            onValueChange={(value) => handleLaborStepChange(index, 'laborRateId', value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Pilih tarif" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {laborRates.map(rate => (
+                                <SelectItem key={rate.id} value={rate.id}>
+                                  {rate.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleRemoveLaborStep(index)}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Machine Usage Section */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <Label>Pemakaian Mesin (per batch)</Label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={handleAddMachineUsage}
+                    disabled={machines.length === 0}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Tambah Mesin
+                  </Button>
+                </div>
+
+                {formData.machineUsages.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    {machines.length === 0
+                      ? 'Tambahkan oven atau kompor di Pengaturan agar biaya gas dan listrik dihitung per menit.'
+                      : 'Menit oven, kompor, atau mesin lain per batch menjadi biaya utilitas.'}
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {formData.machineUsages.map((usage, index) => (
+                      <div key={index} className="flex gap-3 items-end p-3 bg-muted/50 rounded-lg">
+                        <div className="flex-1">
+                          <Label className="text-xs">Mesin</Label>
+                          <Select
+                            value={usage.machineId}
+                            onValueChange={(value) => handleMachineUsageChange(index, { machineId: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Pilih mesin" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {machines.map(machine => (
+                                <SelectItem key={machine.id} value={machine.id}>
+                                  {machine.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="w-28">
+                          <Label className="text-xs">Menit/Batch</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            value={usage.minutes}
+                            onChange={(e) => handleMachineUsageChange(index, { minutes: Number(e.target.value) })}
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleRemoveMachineUsage(index)}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Ingredients Section */}
@@ -320,18 +797,31 @@ const Products: React.FC = () => {
                         <div className="flex-1">
                           <Label className="text-xs">Bahan</Label>
                           <Select
-                            value={ing.materialId}
-                            onValueChange={(value) => handleIngredientChange(index, 'materialId', value)}
+                            value={getIngredientSource(ing)}
+                            onValueChange={(value) => handleIngredientSourceChange(index, value)}
                           >
                             <SelectTrigger>
                               <SelectValue placeholder="Pilih bahan" />
                             </SelectTrigger>
                             <SelectContent>
-                              {materials.map(m => (
-                                <SelectItem key={m.id} value={m.id}>
-                                  {m.name} ({m.unit})
-                                </SelectItem>
-                              ))}
+                              <SelectGroup>
+                                <SelectLabel>Bahan Baku</SelectLabel>
+                                {materials.map(m => (
+                                  <SelectItem key={m.id} value={`material:${m.id}`}>
+                                    {m.name} ({m.unit})
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                              {subRecipeOptions.length > 0 && (
+                                <SelectGroup>
+                                  <SelectLabel>Sub-resep (Produk)</SelectLabel>
+                                  {subRecipeOptions.map(p => (
+                                    <SelectItem key={p.id} value={`product:${p.id}`}>
+                                      {p.name} ({p.yieldUnit ?? 'pcs'})
+                                    </SelectItem>
+                                  ))}
+                                </SelectGroup>
+                              )}
                             </SelectContent>
                           </Select>
                         </div>
@@ -346,6 +836,36 @@ const Products: React.FC = () => {
                             className="input-currency"
                           />
                         </div>
+                        <div className="w-24">
+                          <Label className="text-xs">Satuan</Label>
+                          <Select
+                            value={getIngredientUnit(ing) ?? ''}
+                            onValueChange={(value) => handleIngredientChange(index, 'unit', value)}
+                            disabled={!ing.materialId && !ing.subProductId}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="-" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {getIngredientUnitOptions(ing).map(u => (
+                                <SelectItem key={u} value={u}>
+                                  {u}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="w-20">
+                          <Label className="text-xs">Susut %</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="99"
+                            step="0.1"
+                            value={ing.wastePercent ?? 0}
+                            onChange={(e) => handleIngredientChange(index, 'wastePercent', Number(e.target.value))}
+                          />
+                        </div>
                         <Button
                           type="button"
                           size="icon"
@@ -359,6 +879,16 @@ const Products: React.FC = () => {
                   </div>
                 )}
               </div>
+
+              {/* Variants Section */}
+              <VariantEditor
+                variants={formData.variants}
+                onChange={(variants) => setFormData({ ...formData, variants })}
+                ingredients={formData.ingredients}
+                materials={materials}
+                getIngredientName={getIngredientName}
+                getIngredientUnit={getIngredientUnit}
+              />
             </div>
 
             <DialogFooter>
@@ -14,9 +14,11 @@ import {
 } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
 import { getProducts, getSales } from '@/lib/store';
-import { calculateHPP, formatCurrency, formatNumber } from '@/lib/hpp-calculator';
+import { computeHPP, loadHPPData, formatCurrency, formatNumber } from '@/lib/hpp-calculator';
+import { hasBlockingIssues, validateProduct, type HPPIssue } from '@/lib/hpp-validation';
 import { calculateForecast } from '@/lib/forecast';
 import { exportToExcel } from '@/lib/excel-export';
+import { HPPIssueAlert } from '@/components/HPPIssueAlert';
 import type { Product, Sale, HPPResult } from '@/types';
 
 const Reports: React.FC = () => {
@@ -27,6 +29,7 @@ const Reports: React.FC = () => {
   const [endDate, setEndDate] = useState('');
   const [isExporting, setIsExporting] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [issues, setIssues] = useState<HPPIssue[]>([]);
   const [previewStats, setPreviewStats] = useState<{
     hpp: number;
     suggestedPrice: number;
@@ -74,10 +77,18 @@ const Reports: React.FC = () => {
     const calculatePreview = async () => {
       if (!selectedProduct || !startDate || !endDate) {
         setPreviewStats(null);
+        setIssues([]);
         return;
       }
 
-      const hpp = await calculateHPP(selectedProduct);
+      const data = await loadHPPData();
+      const productIssues = validateProduct(selectedProduct, data);
+      setIssues(productIssues);
+      if (hasBlockingIssues(productIssues)) {
+        setPreviewStats(null);
+        return;
+      }
+      const hpp = computeHPP(selectedProduct, data);
       
       const periodStart = new Date(startDate);
       const periodEnd = new Date(endDate);
@@ -106,7 +117,10 @@ const Reports: React.FC = () => {
       });
     };
 
-    calculatePreview();
+    calculatePreview().catch(error => {
+      console.error('Error calculating preview:', error);
+      setPreviewStats(null);
+    });
   }, [selectedProduct, selectedProductId, startDate, endDate, sales]);
 
   const handleExport = async () => {
@@ -118,7 +132,12 @@ const Reports: React.FC = () => {
     setIsExporting(true);
 
     try {
-      const hpp = await calculateHPP(selectedProduct);
+      const data = await loadHPPData();
+      if (hasBlockingIssues(validateProduct(selectedProduct, data))) {
+        toast({ title: 'Error', description: 'Perbaiki resep produk sebelum mengexport laporan', variant: 'destructive' });
+        return;
+      }
+      const hpp = computeHPP(selectedProduct, data, {}, { trace: true });
       const forecast = await calculateForecast(selectedProductId, 30);
       
       const periodStart = new Date(startDate);
@@ -240,11 +259,13 @@ const Reports: React.FC = () => {
                 </ul>
               </div>
 
+              <HPPIssueAlert issues={issues} />
+
               <Button 
                 onClick={handleExport} 
                 className="w-full" 
                 size="lg"
-                disabled={isExporting}
+                disabled={isExporting || hasBlockingIssues(issues)}
               >
                 <Download className="w-4 h-4 mr-2" />
                 {isExporting ? 'Mengexport...' : 'Export ke Excel'}
@@ -32,6 +32,7 @@ import {
 import { toast } from '@/hooks/use-toast';
 import { getSales, addSale, deleteSale, getProducts, generateDemoSales } from '@/lib/store';
 import { formatCurrency, formatNumber } from '@/lib/hpp-calculator';
+import { getVariantName } from '@/lib/variants';
 import type { Sale, Product } from '@/types';
 
 const Sales: React.FC = () => {
@@ -45,6 +46,7 @@ const Sales: React.FC = () => {
   // Form state
   const [formData, setFormData] = useState({
     productId: '',
+    variantId: '',
     quantity: 1,
     unitPrice: 0,
     soldAt: new Date().toISOString().split('T')[0],
@@ -75,18 +77,24 @@ const Sales: React.FC = () => {
     loadData();
   }, []);
 
-  const getProductName = (productId: string) => {
-    return products.find(p => p.id === productId)?.name || 'Unknown Product';
+  const getProductName = (productId: string, variantId?: string) => {
+    const product = products.find(p => p.id === productId);
+    const variantName = getVariantName(product, variantId);
+    if (!product) return 'Unknown Product';
+    return variantName ? `${product.name} - ${variantName}` : product.name;
   };
 
+  const selectedProduct = products.find(p => p.id === formData.productId);
+
   const filteredSales = sales.filter(s => {
-    const productName = getProductName(s.productId).toLowerCase();
+    const productName = getProductName(s.productId, s.variantId).toLowerCase();
     return productName.includes(search.toLowerCase());
   }).sort((a, b) => new Date(b.soldAt).getTime() - new Date(a.soldAt).getTime());
 
   const handleOpenDialog = () => {
     setFormData({
       productId: products[0]?.id || '',
+      variantId: products[0]?.variants[0]?.id || '',
       quantity: 1,
       unitPrice: 0,
       soldAt: new Date().toISOString().split('T')[0],
@@ -102,8 +110,14 @@ const Sales: React.FC = () => {
       return;
     }
 
+    if (selectedProduct && selectedProduct.variants.length > 0 && !formData.variantId) {
+      toast({ title: 'Error', description: 'Pilih varian', variant: 'destructive' });
+      return;
+    }
+
     await addSale({
       ...formData,
+      variantId: formData.variantId || undefined,
       soldAt: new Date(formData.soldAt),
     });
     
@@ -137,7 +151,7 @@ const Sales: React.FC = () => {
       </div>
     )},
     { key: 'product', header: 'Produk', cell: (row: Sale) => (
-      <span className="font-medium">{getProductName(row.productId)}</span>
+      <span className="font-medium">{getProductName(row.productId, row.variantId)}</span>
     )},
     { key: 'quantity', header: 'Jumlah', cell: (row: Sale) => (
       <span className="font-mono">{formatNumber(row.quantity, 0)}</span>
@@ -231,7 +245,11 @@ const Sales: React.FC = () => {
                 <Label htmlFor="product">Produk</Label>
                 <Select
                   value={formData.productId}
-                  onValueChange={(value) => setFormData({ ...formData, productId: value })}
+                  onValueChange={(value) => setFormData({
+                    ...formData,
+                    productId: value,
+                    variantId: products.find(p => p.id === value)?.variants[0]?.id || '',
+                  })}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Pilih produk" />
@@ -246,6 +264,27 @@ const Sales: React.FC = () => {
                 </Select>
               </div>
 
+              {selectedProduct && selectedProduct.variants.length > 0 && (
+                <div>
+                  <Label htmlFor="variant">Varian</Label>
+                  <Select
+                    value={formData.variantId}
+                    onValueChange={(value) => setFormData({ ...formData, variantId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih varian" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selectedProduct.variants.map(v => (
+                        <SelectItem key={v.id} value={v.id}>
+                          {v.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="quantity">Jumlah</Label>
@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Settings as SettingsIcon, Plus, Trash2, Save } from 'lucide-react';
 import { PageHeader } from '@/components/ui/page-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -13,25 +14,78 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
-import { getOverheads, addOverhead, updateOverhead, deleteOverhead, getLaborRates, saveLaborRates } from '@/lib/store';
-import { formatCurrency, formatNumber } from '@/lib/hpp-calculator';
-import type { Overhead, LaborRate } from '@/types';
+import {
+  getOverheads,
+  addOverhead,
+  updateOverhead,
+  deleteOverhead,
+  getLaborRates,
+  saveLaborRates,
+  getProducts,
+  getSales,
+  getPricingSettings,
+  savePricingSettings,
+  getSalesChannels,
+  saveSalesChannels,
+  getCostingMethod,
+  saveCostingMethod,
+  getEquipmentAssets,
+  getMachines,
+  saveMachines,
+} from '@/lib/store';
+import { DEFAULT_MONTHLY_PRODUCTION, formatCurrency, formatNumber } from '@/lib/hpp-calculator';
+import { recordSnapshots } from '@/lib/hpp-history';
+import {
+  ALLOCATION_DRIVERS,
+  ACTIVITY_WINDOW_DAYS,
+  allocateFixedOverhead,
+  getProductActivity,
+  isOverheadInScope,
+} from '@/lib/overhead-allocation';
+import { DEFAULT_PRICING_SETTINGS, PRICE_ROUNDINGS, PRICING_STRATEGIES } from '@/lib/pricing';
+import { COSTING_METHODS, DEFAULT_COSTING_METHOD } from '@/lib/inventory-costing';
+import { toDepreciationOverhead } from '@/lib/depreciation';
+import { MACHINE_ENERGIES, getMachineCostPerMinute } from '@/lib/utilities';
+import { AssetRegister } from '@/components/settings/AssetRegister';
+import type { Overhead, LaborRate, Product, Sale, PricingSettings, SalesChannel, CostingMethod, EquipmentAsset, Machine } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
 const Settings: React.FC = () => {
   const [overheads, setOverheads] = useState<Overhead[]>([]);
   const [laborRates, setLaborRates] = useState<LaborRate[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [pricing, setPricing] = useState<PricingSettings>(DEFAULT_PRICING_SETTINGS);
+  const [channels, setChannels] = useState<SalesChannel[]>([]);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(DEFAULT_COSTING_METHOD);
+  const [assets, setAssets] = useState<EquipmentAsset[]>([]);
   const [hasChanges, setHasChanges] = useState(false);
   const [loading, setLoading] = useState(true);
 
   const loadData = async () => {
     try {
-      const [loadedOverheads, loadedLaborRates] = await Promise.all([
+      const [loadedOverheads, loadedLaborRates, loadedMachines, loadedProducts, loadedSales, loadedPricing, loadedChannels, loadedCostingMethod, loadedAssets] = await Promise.all([
         getOverheads(),
-        getLaborRates()
+        getLaborRates(),
+        getMachines(),
+        getProducts(),
+        getSales(),
+        getPricingSettings(),
+        getSalesChannels(),
+        getCostingMethod(),
+        getEquipmentAssets()
       ]);
-      setOverheads(loadedOverheads);
+      // Depreciation lines are edited through their asset
+      setOverheads(loadedOverheads.filter(o => !o.assetId));
+      setAssets(loadedAssets);
       setLaborRates(loadedLaborRates);
+      setMachines(loadedMachines);
+      setProducts(loadedProducts);
+      setSales(loadedSales);
+      setPricing(loadedPricing);
+      setChannels(loadedChannels);
+      setCostingMethod(loadedCostingMethod);
     } catch (error) {
       console.error('Error loading settings:', error);
     } finally {
@@ -43,10 +97,14 @@ const Settings: React.FC = () => {
     loadData();
   }, []);
 
+  const loadAssets = async () => {
+    setAssets(await getEquipmentAssets());
+  };
+
   const handleAddOverhead = () => {
     setOverheads([
       ...overheads,
-      { id: uuidv4(), name: '', amount: 0, allocationType: 'fixed' },
+      { id: uuidv4(), name: '', amount: 0, allocationType: 'fixed', allocationDriver: 'flat', scope: 'all', productIds: [] },
     ]);
     setHasChanges(true);
   };
@@ -56,13 +114,20 @@ const Settings: React.FC = () => {
     setHasChanges(true);
   };
 
-  const handleOverheadChange = (id: string, field: keyof Overhead, value: string | number) => {
+  const handleOverheadChange = <K extends keyof Overhead>(id: string, field: K, value: Overhead[K]) => {
     setOverheads(overheads.map(o => 
       o.id === id ? { ...o, [field]: value } : o
     ));
     setHasChanges(true);
   };
 
+  const handleToggleOverheadProduct = (overhead: Overhead, productId: string, checked: boolean) => {
+    const productIds = checked
+      ? [...overhead.productIds, productId]
+      : overhead.productIds.filter(id => id !== productId);
+    handleOverheadChange(overhead.id, 'productIds', productIds);
+  };
+
   const handleAddLaborRate = () => {
     setLaborRates([
       ...laborRates,
@@ -87,9 +152,63 @@ const Settings: React.FC = () => {
     setHasChanges(true);
   };
 
+  const handleAddMachine = () => {
+    setMachines([
+      ...machines,
+      { id: uuidv4(), name: '', energy: 'electric', powerKw: 0, tariffPerKwh: 1444.7, cylinderPrice: 0, cylinderMinutes: 0 },
+    ]);
+    setHasChanges(true);
+  };
+
+  const handleRemoveMachine = (id: string) => {
+    setMachines(machines.filter(m => m.id !== id));
+    setHasChanges(true);
+  };
+
+  const handleMachineChange = <K extends keyof Machine>(id: string, field: K, value: Machine[K]) => {
+    setMachines(machines.map(m =>
+      m.id === id ? { ...m, [field]: value } : m
+    ));
+    setHasChanges(true);
+  };
+
+  const handlePricingChange = <K extends keyof PricingSettings>(field: K, value: PricingSettings[K]) => {
+    setPricing({ ...pricing, [field]: value });
+    setHasChanges(true);
+  };
+
+  const handleAddChannel = () => {
+    setChannels([
+      ...channels,
+      { id: uuidv4(), name: '', commissionPercent: 20, fixedFee: 0, taxPercent: 11, taxIncluded: true },
+    ]);
+    setHasChanges(true);
+  };
+
+  const handleRemoveChannel = (id: string) => {
+    setChannels(channels.filter(c => c.id !== id));
+    setHasChanges(true);
+  };
+
+  const handleChannelChange = <K extends keyof SalesChannel>(id: string, field: K, value: SalesChannel[K]) => {
+    setChannels(channels.map(c =>
+      c.id === id ? { ...c, [field]: value } : c
+    ));
+    setHasChanges(true);
+  };
+
   const handleSave = async () => {
     // Validate
     const validOverheads = overheads.filter(o => o.name.trim() !== '');
+
+    const unscoped = validOverheads.find(o =>
+      (o.scope === 'products' && o.productIds.length === 0) ||
+      (o.scope === 'category' && !o.category?.trim())
+    );
+    if (unscoped) {
+      toast({ title: 'Error', description: `Pilih produk atau kategori untuk overhead "${unscoped.name}"`, variant: 'destructive' });
+      return;
+    }
     const validLaborRates = laborRates.filter(r => r.name.trim() !== '' && r.wagePerHour > 0);
 
     if (validLaborRates.length === 0) {
@@ -97,9 +216,40 @@ const Settings: React.FC = () => {
       return;
     }
 
+    if (pricing.marginPercent < 0 || pricing.marginPercent >= 100) {
+      toast({ title: 'Error', description: 'Margin harus antara 0 dan kurang dari 100%', variant: 'destructive' });
+      return;
+    }
+    if (pricing.foodCostPercent <= 0 || pricing.foodCostPercent > 100) {
+      toast({ title: 'Error', description: 'Target food cost harus antara 1 dan 100%', variant: 'destructive' });
+      return;
+    }
+    if (pricing.markupPercent < 0 || pricing.fixedProfit < 0) {
+      toast({ title: 'Error', description: 'Markup dan laba tetap tidak boleh negatif', variant: 'destructive' });
+      return;
+    }
+
+    const validMachines = machines.filter(m => m.name.trim() !== '');
+    const invalidMachine = validMachines.find(m =>
+      m.energy === 'lpg' ? m.cylinderPrice < 0 || m.cylinderMinutes <= 0 : m.powerKw < 0 || m.tariffPerKwh < 0
+    );
+    if (invalidMachine) {
+      toast({ title: 'Error', description: `Daya, tarif, atau lama pakai tabung mesin "${invalidMachine.name}" tidak valid`, variant: 'destructive' });
+      return;
+    }
+
+    const validChannels = channels.filter(c => c.name.trim() !== '');
+    const invalidChannel = validChannels.find(c =>
+      c.commissionPercent < 0 || c.commissionPercent >= 100 || c.fixedFee < 0 || c.taxPercent < 0
+    );
+    if (invalidChannel) {
+      toast({ title: 'Error', description: `Komisi, biaya, atau PPN kanal "${invalidChannel.name}" tidak valid`, variant: 'destructive' });
+      return;
+    }
+
     try {
       // Get current overheads from DB
-      const currentOverheads = await getOverheads();
+      const currentOverheads = (await getOverheads()).filter(o => !o.assetId);
       const currentIds = currentOverheads.map(o => o.id);
       const validIds = validOverheads.map(o => o.id);
 
@@ -115,14 +265,35 @@ const Settings: React.FC = () => {
         if (currentIds.includes(overhead.id)) {
           await updateOverhead(overhead.id, overhead);
         } else {
-          await addOverhead({ name: overhead.name, amount: overhead.amount, allocationType: overhead.allocationType });
+          await addOverhead({
+            name: overhead.name,
+            amount: overhead.amount,
+            allocationType: overhead.allocationType,
+            allocationDriver: overhead.allocationDriver,
+            scope: overhead.scope,
+            productIds: overhead.productIds,
+            category: overhead.category,
+          });
         }
       }
 
       // Save labor rates
       await saveLaborRates(validLaborRates);
+
+      await saveMachines(validMachines);
+
+      await saveSalesChannels(validChannels);
+
+      if (!(await savePricingSettings(pricing))) {
+        throw new Error('Failed to save pricing settings');
+      }
+
+      if (!(await saveCostingMethod(costingMethod))) {
+        throw new Error('Failed to save costing settings');
+      }
       
       await loadData();
+      recordSnapshots('settings');
       setHasChanges(false);
       
       toast({ title: 'Berhasil', description: 'Pengaturan berhasil disimpan' });
@@ -132,6 +303,30 @@ const Settings: React.FC = () => {
     }
   };
 
+  const categories = [...new Set(products.map(p => p.category).filter(Boolean))];
+
+  // Per-unit allocation of each fixed overhead, from the unsaved form state
+  const allocationPreview = useMemo(() => {
+    const activity = getProductActivity(products, sales);
+    const depreciation = assets.map(asset => toDepreciationOverhead(asset)).filter(o => o.amount > 0);
+    return [...overheads, ...depreciation]
+      .filter(o => o.allocationType === 'fixed' && o.name.trim() !== '')
+      .map(overhead => ({
+        overhead,
+        rows: products
+          .filter(p => isOverheadInScope(overhead, p))
+          .map(product => {
+            const allocated = allocateFixedOverhead(overhead, product, products, activity);
+            return {
+              product,
+              units: activity.find(a => a.productId === product.id)?.units ?? 0,
+              perUnit: allocated ?? overhead.amount / DEFAULT_MONTHLY_PRODUCTION,
+              isFallback: allocated === null,
+            };
+          }),
+      }));
+  }, [overheads, assets, products, sales]);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -144,7 +339,7 @@ const Settings: React.FC = () => {
     <div className="animate-fade-in">
       <PageHeader
         title="Pengaturan"
-        description="Konfigurasi biaya overhead dan tarif tenaga kerja"
+        description="Konfigurasi biaya overhead, tarif tenaga kerja, dan strategi harga"
       >
         {hasChanges && (
           <Button onClick={handleSave}>
@@ -161,7 +356,7 @@ const Settings: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <CardTitle className="text-lg">Biaya Overhead</CardTitle>
-                <CardDescription>Biaya tetap yang dialokasikan ke setiap produk</CardDescription>
+                <CardDescription>Biaya tetap yang dialokasikan ke produk sesuai cakupannya</CardDescription>
               </div>
               <Button size="sm" variant="outline" onClick={handleAddOverhead}>
                 <Plus className="w-4 h-4 mr-1" />
@@ -211,19 +406,85 @@ const Settings: React.FC = () => {
                         <Label className="text-xs">Metode Alokasi</Label>
                         <Select
                           value={overhead.allocationType}
-                          onValueChange={(value) => handleOverheadChange(overhead.id, 'allocationType', value)}
+                          onValueChange={(value) => handleOverheadChange(overhead.id, 'allocationType', value as Overhead['allocationType'])}
                         >
                           <SelectTrigger>
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="fixed">Per Bulan (bagi rata)</SelectItem>
+                            <SelectItem value="fixed">Per Bulan</SelectItem>
                             <SelectItem value="per_unit">Per Unit</SelectItem>
                             <SelectItem value="percentage">Persentase HPP</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
                     </div>
+                    {overhead.allocationType === 'fixed' && (
+                      <div>
+                        <Label className="text-xs">Dasar Alokasi</Label>
+                        <Select
+                          value={overhead.allocationDriver}
+                          onValueChange={(value) => handleOverheadChange(overhead.id, 'allocationDriver', value as Overhead['allocationDriver'])}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ALLOCATION_DRIVERS.map(driver => (
+                              <SelectItem key={driver.value} value={driver.value}>
+                                {driver.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div>
+                      <Label className="text-xs">Berlaku untuk</Label>
+                      <Select
+                        value={overhead.scope}
+                        onValueChange={(value) => handleOverheadChange(overhead.id, 'scope', value as Overhead['scope'])}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Semua produk</SelectItem>
+                          <SelectItem value="products">Produk tertentu</SelectItem>
+                          <SelectItem value="category">Kategori produk</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {overhead.scope === 'products' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {products.map(product => (
+                          <label key={product.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={overhead.productIds.includes(product.id)}
+                              onCheckedChange={(checked) => handleToggleOverheadProduct(overhead, product.id, checked === true)}
+                            />
+                            {product.name}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    {overhead.scope === 'category' && (
+                      <Select
+                        value={overhead.category ?? ''}
+                        onValueChange={(value) => handleOverheadChange(overhead.id, 'category', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Pilih kategori" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories.map(category => (
+                            <SelectItem key={category} value={category}>
+                              {category}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
                     <p className="text-xs text-muted-foreground">
                       {overhead.allocationType === 'fixed' && `${formatCurrency(overhead.amount)}/bulan, dibagi ke produksi bulanan`}
                       {overhead.allocationType === 'per_unit' && `${formatCurrency(overhead.amount)} per unit produk`}
@@ -297,6 +558,392 @@ const Settings: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Machine Settings */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Mesin & Utilitas</CardTitle>
+                <CardDescription>Biaya gas dan listrik per menit mesin menyala</CardDescription>
+              </div>
+              <Button size="sm" variant="outline" onClick={handleAddMachine}>
+                <Plus className="w-4 h-4 mr-1" />
+                Tambah
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {machines.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Belum ada mesin. Klik "Tambah" untuk menambahkan oven, kompor, atau mixer.
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {machines.map((machine) => (
+                  <div key={machine.id} className="p-4 bg-muted/50 rounded-lg space-y-3">
+                    <div className="flex gap-3">
+                      <div className="flex-1">
+                        <Label className="text-xs">Nama Mesin</Label>
+                        <Input
+                          value={machine.name}
+                          onChange={(e) => handleMachineChange(machine.id, 'name', e.target.value)}
+                          placeholder="Contoh: Oven Gas"
+                        />
+                      </div>
+                      <div className="w-32">
+                        <Label className="text-xs">Energi</Label>
+                        <Select
+                          value={machine.energy}
+                          onValueChange={(value) => handleMachineChange(machine.id, 'energy', value as Machine['energy'])}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MACHINE_ENERGIES.map(energy => (
+                              <SelectItem key={energy.value} value={energy.value}>
+                                {energy.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleRemoveMachine(machine.id)}
+                        className="mt-5"
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                    {machine.energy === 'lpg' ? (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <Label className="text-xs">Harga per Tabung (Rp)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            value={machine.cylinderPrice}
+                            onChange={(e) => handleMachineChange(machine.id, 'cylinderPrice', Number(e.target.value))}
+                            className="input-currency"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Tabung Habis dalam (menit)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            value={machine.cylinderMinutes}
+                            onChange={(e) => handleMachineChange(machine.id, 'cylinderMinutes', Number(e.target.value))}
+                          />
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <Label className="text-xs">Daya (kW)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={machine.powerKw}
+                            onChange={(e) => handleMachineChange(machine.id, 'powerKw', Number(e.target.value))}
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Tarif Listrik (Rp/kWh)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={machine.tariffPerKwh}
+                            onChange={(e) => handleMachineChange(machine.id, 'tariffPerKwh', Number(e.target.value))}
+                            className="input-currency"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(getMachineCostPerMinute(machine))}/menit
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pricing Settings */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Strategi Harga Jual</CardTitle>
+            <CardDescription>
+              Cara menghitung harga jual rekomendasi dari HPP. Kalkulator tetap menampilkan semua strategi sebagai pembanding.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label className="text-xs">Strategi Utama</Label>
+                <Select
+                  value={pricing.strategy}
+                  onValueChange={(value) => handlePricingChange('strategy', value as PricingSettings['strategy'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRICING_STRATEGIES.map(strategy => (
+                      <SelectItem key={strategy.value} value={strategy.value}>
+                        {strategy.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {PRICING_STRATEGIES.find(s => s.value === pricing.strategy)?.description}
+                </p>
+              </div>
+              <div>
+                <Label className="text-xs">Pembulatan Harga</Label>
+                <Select
+                  value={pricing.rounding}
+                  onValueChange={(value) => handlePricingChange('rounding', value as PricingSettings['rounding'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRICE_ROUNDINGS.map(rounding => (
+                      <SelectItem key={rounding.value} value={rounding.value}>
+                        {rounding.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <Label className="text-xs">Margin (% harga jual)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="99"
+                  value={pricing.marginPercent}
+                  onChange={(e) => handlePricingChange('marginPercent', Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Markup (% HPP)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={pricing.markupPercent}
+                  onChange={(e) => handlePricingChange('markupPercent', Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Target Food Cost (%)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={pricing.foodCostPercent}
+                  onChange={(e) => handlePricingChange('foodCostPercent', Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Laba Tetap (Rp/unit)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={pricing.fixedProfit}
+                  onChange={(e) => handlePricingChange('fixedProfit', Number(e.target.value))}
+                  className="input-currency"
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Equipment Assets */}
+        <AssetRegister assets={assets} products={products} onChange={loadAssets} />
+
+        {/* Inventory Costing */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Metode Biaya Persediaan</CardTitle>
+            <CardDescription>
+              Cara menentukan biaya bahan per satuan dari lot stok yang diterima
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="max-w-sm">
+              <Label className="text-xs">Metode</Label>
+              <Select
+                value={costingMethod}
+                onValueChange={(value) => {
+                  setCostingMethod(value as CostingMethod);
+                  setHasChanges(true);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COSTING_METHODS.map(method => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {COSTING_METHODS.find(m => m.value === costingMethod)?.description}. Bahan tanpa lot stok memakai harga terakhir.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Sales Channel Settings */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Kanal Penjualan</CardTitle>
+                <CardDescription>Komisi marketplace/ojol, biaya tetap, dan PPN per kanal</CardDescription>
+              </div>
+              <Button size="sm" variant="outline" onClick={handleAddChannel}>
+                <Plus className="w-4 h-4 mr-1" />
+                Tambah
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {channels.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Belum ada kanal. Klik "Tambah" untuk menambahkan, misalnya GoFood atau ShopeeFood.
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {channels.map((channel) => (
+                  <div key={channel.id} className="p-4 bg-muted/50 rounded-lg space-y-3">
+                    <div className="flex gap-3">
+                      <div className="flex-1">
+                        <Label className="text-xs">Nama Kanal</Label>
+                        <Input
+                          value={channel.name}
+                          onChange={(e) => handleChannelChange(channel.id, 'name', e.target.value)}
+                          placeholder="Contoh: GoFood"
+                        />
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleRemoveChannel(channel.id)}
+                        className="mt-5"
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <Label className="text-xs">Komisi (%)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="99"
+                          value={channel.commissionPercent}
+                          onChange={(e) => handleChannelChange(channel.id, 'commissionPercent', Number(e.target.value))}
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Biaya Tetap (Rp)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={channel.fixedFee}
+                          onChange={(e) => handleChannelChange(channel.id, 'fixedFee', Number(e.target.value))}
+                          className="input-currency"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">PPN (%)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={channel.taxPercent}
+                          onChange={(e) => handleChannelChange(channel.id, 'taxPercent', Number(e.target.value))}
+                        />
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={channel.taxIncluded}
+                        onCheckedChange={(checked) => handleChannelChange(channel.id, 'taxIncluded', checked === true)}
+                      />
+                      Harga yang tertera sudah termasuk PPN
+                    </label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Allocation Preview */}
+        {allocationPreview.length > 0 && (
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">Pratinjau Alokasi Overhead Bulanan</CardTitle>
+              <CardDescription>
+                Berdasarkan penjualan {ACTIVITY_WINDOW_DAYS} hari terakhir
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {allocationPreview.map(({ overhead, rows }) => (
+                <div key={overhead.id}>
+                  <h4 className="font-medium mb-2">
+                    {overhead.name}
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      {formatCurrency(overhead.amount)}/bulan · {ALLOCATION_DRIVERS.find(d => d.value === overhead.allocationDriver)?.label}
+                    </span>
+                  </h4>
+                  <div className="bg-muted/50 rounded-lg overflow-hidden">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-border">
+                          <th className="text-left p-3 text-xs font-semibold text-muted-foreground uppercase">Produk</th>
+                          <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Unit Terjual</th>
+                          <th className="text-right p-3 text-xs font-semibold text-muted-foreground uppercase">Alokasi/Unit</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.map(row => (
+                          <tr key={row.product.id} className="border-b border-border last:border-0">
+                            <td className="p-3">{row.product.name}</td>
+                            <td className="p-3 text-right font-mono text-muted-foreground">{formatNumber(row.units, 0)}</td>
+                            <td className="p-3 text-right font-mono">
+                              {formatCurrency(row.perUnit)}
+                              {row.isFallback && overhead.allocationDriver !== 'flat' && (
+                                <span className="block text-xs text-muted-foreground">
+                                  bagi rata {formatNumber(DEFAULT_MONTHLY_PRODUCTION, 0)} unit (belum ada data)
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Info Card */}
         <Card className="lg:col-span-2">
           <CardHeader>
@@ -310,7 +957,7 @@ const Settings: React.FC = () => {
               <div>
                 <h4 className="font-medium mb-2">Metode Alokasi Overhead</h4>
                 <ul className="text-sm text-muted-foreground space-y-2">
-                  <li><strong>Per Bulan:</strong> Biaya bulanan dibagi rata ke estimasi produksi bulanan</li>
+                  <li><strong>Per Bulan:</strong> Biaya bulanan dibagi rata ke estimasi produksi bulanan, atau menurut unit terjual, menit kerja, atau porsi pendapatan</li>
                   <li><strong>Per Unit:</strong> Biaya langsung ditambahkan per unit produk</li>
                   <li><strong>Persentase:</strong> Persentase dari total biaya bahan + tenaga kerja</li>
                 </ul>
@@ -1,36 +1,174 @@
 export type Unit = 'g' | 'kg' | 'ml' | 'l' | 'pcs' | 'pack';
 
+// Household measures used in recipes (sendok makan, sendok teh, butir, gelas)
+export type KitchenUnit = 'sdm' | 'sdt' | 'butir' | 'gelas';
+
+export type RecipeUnit = Unit | KitchenUnit;
+
+// 1 <unit> = <quantity> <baseUnit>, e.g. 1 butir = 60 g
+export interface UnitConversion {
+  unit: KitchenUnit;
+  quantity: number;
+  baseUnit: Unit;
+}
+
 export interface Material {
   id: string;
   name: string;
   unit: Unit;
   pricePerUnit: number;
   stockAmount: number;
+  conversions: UnitConversion[];
+  density?: number; // grams per ml, for ml <-> g
   updatedAt: Date;
 }
 
+// A material price, valid from effectiveDate until the next entry
+export interface MaterialPriceEntry {
+  id: string;
+  materialId: string;
+  pricePerUnit: number;
+  effectiveDate: Date;
+  supplier?: string;
+  note?: string;
+}
+
+// Stock received in one delivery, at one cost
+export interface MaterialLot {
+  id: string;
+  materialId: string;
+  quantity: number; // In the material's unit
+  unitCost: number;
+  receivedAt: Date;
+  supplier?: string;
+}
+
+// How a material's unit cost is derived for HPP
+export type CostingMethod = 'latest' | 'weighted_average' | 'fifo';
+
 export interface Product {
   id: string;
   name: string;
   description: string;
+  category: string; // Free text, used to scope overheads
   yieldPerBatch: number;
+  yieldUnit?: Unit; // Unit of the batch yield, defaults to pcs
+  rejectRate?: number; // % of each batch that fails and cannot be sold
   ingredients: ProductIngredient[];
-  laborMinutes: number;
+  laborMinutes: number; // Per unit; the sum of per-unit laborSteps when there are any
+  batchMinutes: number; // Setup/cleaning per batch, spread over the batch yield
+  laborSteps: LaborStep[];
+  machineUsages: MachineUsage[];
+  variants: ProductVariant[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Quantity of one base-recipe ingredient in a variant, instead of the scaled one
+export interface VariantIngredientOverride {
+  materialId: string; // Empty when the ingredient is a sub-recipe
+  subProductId?: string;
+  quantity: number; // Per batch, in the base ingredient's unit
+}
+
+// A size of a product, costed from the product's own recipe
+export interface ProductVariant {
+  id: string;
+  name: string; // E.g. "20 cm" or "Large"
+  scaleFactor: number; // Multiplies every base ingredient quantity
+  ingredientOverrides: VariantIngredientOverride[];
+  extraIngredients: ProductIngredient[]; // Packaging and the like, per unit sold
+  extraLaborMinutes: number; // Per unit, on top of the base labor
+}
+
 export interface ProductIngredient {
   id: string;
-  materialId: string;
+  materialId: string; // Empty when the ingredient is a sub-recipe
+  subProductId?: string; // Another product used as an intermediate
   quantity: number;
+  unit?: RecipeUnit; // Defaults to the material's unit
+  wastePercent?: number; // % lost to trimming/evaporation, on top of quantity
+}
+
+export type OverheadAllocationType = 'fixed' | 'per_unit' | 'percentage';
+
+// Which products an overhead is charged to
+export type OverheadScope = 'all' | 'products' | 'category';
+
+// How a 'fixed' monthly overhead is spread across the product mix.
+// 'flat' divides by the estimated monthly production for every product.
+export type AllocationDriver = 'flat' | 'units' | 'labor_minutes' | 'revenue';
+
+export type LaborBasis = 'unit' | 'batch';
+
+// One stage of production (mixing, baking, packing...) done at its own wage
+export interface LaborStep {
+  id: string;
+  name: string;
+  minutes: number; // Per unit or per batch, see basis
+  basis: LaborBasis;
+  laborRateId: string;
 }
 
 export interface Overhead {
   id: string;
   name: string;
   amount: number;
-  allocationType: 'fixed' | 'per_unit' | 'percentage';
+  allocationType: OverheadAllocationType;
+  allocationDriver: AllocationDriver; // Only used for 'fixed' overheads
+  scope: OverheadScope;
+  productIds: string[]; // Used when scope is 'products'
+  category?: string; // Used when scope is 'category'
+  assetId?: string; // Depreciation generated from an equipment asset, edited through the asset
+}
+
+export type DepreciationMethod = 'straight_line' | 'declining_balance';
+
+// Oven, mixer, freezer... charged to cost as monthly depreciation
+export interface EquipmentAsset {
+  id: string;
+  name: string;
+  purchasePrice: number;
+  purchaseDate: Date;
+  usefulLifeYears: number;
+  salvageValue: number; // Worth at the end of its useful life
+  method: DepreciationMethod;
+  allocationDriver: AllocationDriver;
+  productIds: string[]; // Products that use it, empty for all products
+}
+
+export interface OverheadDetail {
+  overheadId: string;
+  name: string;
+  allocationType: OverheadAllocationType;
+  amount: number; // Allocated cost per unit
+}
+
+// How a machine's running cost per minute is derived
+export type MachineEnergy = 'electric' | 'lpg';
+
+// Oven, stove, fryer... charged for the minutes it runs
+export interface Machine {
+  id: string;
+  name: string;
+  energy: MachineEnergy;
+  powerKw: number; // Electric: average draw while running
+  tariffPerKwh: number; // Electric: rupiah per kWh
+  cylinderPrice: number; // LPG: price of one cylinder
+  cylinderMinutes: number; // LPG: burn minutes one cylinder lasts
+}
+
+export interface MachineUsage {
+  machineId: string;
+  minutes: number; // Per batch
+}
+
+export interface UtilityDetail {
+  machineId: string;
+  name: string;
+  minutes: number; // Per batch
+  costPerMinute: number;
+  total: number; // Per unit
 }
 
 export interface LaborRate {
@@ -39,27 +177,179 @@ export interface LaborRate {
   wagePerHour: number;
 }
 
+// Shop, marketplace or delivery app (GoFood, GrabFood, ShopeeFood...)
+export interface SalesChannel {
+  id: string;
+  name: string;
+  commissionPercent: number; // Charged on the listed price
+  fixedFee: number; // Rupiah per unit/order
+  taxPercent: number; // PPN, 0 when not collected
+  taxIncluded: boolean; // Listed price already includes PPN
+}
+
+export interface ChannelPrice {
+  channelId: string;
+  channelName: string;
+  price: number | null; // Listed price, null when fees eat the whole price
+  commission: number;
+  fixedFee: number;
+  tax: number; // PPN, inside or on top of the listed price
+  netRevenue: number; // What is left after commission, fee and PPN
+  profit: number;
+  marginPercent: number; // Profit as % of net revenue
+}
+
+// How the suggested selling price is derived from the HPP
+export type PricingStrategy = 'margin' | 'markup' | 'food_cost' | 'fixed_profit';
+
+export type PriceRounding = 'up_100' | 'up_500' | 'up_1000' | 'charm_900' | 'none';
+
+export interface PricingSettings {
+  strategy: PricingStrategy;
+  marginPercent: number; // Profit as % of the selling price
+  markupPercent: number; // Profit as % of the HPP
+  foodCostPercent: number; // Material cost as % of the selling price
+  fixedProfit: number; // Rupiah added on top of the HPP
+  rounding: PriceRounding;
+}
+
+export interface PriceSuggestion {
+  strategy: PricingStrategy;
+  price: number; // After rounding
+  profit: number; // Per unit
+  marginPercent: number; // Resulting profit as % of price
+}
+
 export interface Sale {
   id: string;
   productId: string;
+  variantId?: string; // Unset for products without variants
   quantity: number;
   unitPrice: number;
   soldAt: Date;
 }
 
+// A product (or one of its variants) inside a bundle
+export interface BundleItem {
+  id: string;
+  productId: string;
+  variantId?: string;
+  quantity: number; // Units per bundle
+}
+
+// A combo ("paket hemat") sold at one price, made of other products
+export interface Bundle {
+  id: string;
+  name: string;
+  description: string;
+  items: BundleItem[];
+  packaging: ProductIngredient[]; // Materials only, per bundle
+  discountPercent: number; // Off the components' suggested prices
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BundleSale {
+  id: string;
+  bundleId: string;
+  quantity: number;
+  unitPrice: number; // Per bundle
+  soldAt: Date;
+}
+
+export interface MaterialDetail {
+  materialId?: string; // Unset for sub-recipes and deleted materials
+  name: string;
+  netQuantity: number; // What ends up in the product
+  quantity: number; // Gross quantity bought, including waste
+  unit: Unit;
+  pricePerUnit: number;
+  total: number;
+  children?: MaterialDetail[]; // Breakdown of a sub-recipe, scaled to this product
+  processCost?: number; // Sub-recipe's own labor and machine cost, scaled to this product
+  laborMinutes?: number; // Sub-recipe's own labor minutes, scaled to this product
+}
+
+export interface LaborDetail {
+  name: string;
+  basis: LaborBasis;
+  minutes: number; // As entered, per unit or per batch
+  minutesPerUnit: number;
+  laborRateName: string;
+  wagePerHour: number;
+  total: number; // Per unit
+}
+
+// One line of an HPP explanation: a value and the formula behind it
+export interface HPPTraceStep {
+  section: 'material' | 'labor' | 'utility' | 'overhead' | 'total' | 'price';
+  label: string;
+  formula: string; // Without the result, e.g. "500 g ÷ 20 pcs × Rp12/g"
+  value: number;
+  children?: HPPTraceStep[]; // Sub-recipe ingredients, per unit of the sub-recipe
+}
+
 export interface HPPResult {
   productId: string;
   productName: string;
   computedAt: Date;
   breakdown: {
     materialsTotal: number;
-    materialDetails: { name: string; quantity: number; unit: Unit; pricePerUnit: number; total: number }[];
+    materialDetails: MaterialDetail[];
     laborCost: number;
+    laborDetails: LaborDetail[];
+    utilityCost: number;
+    utilityDetails: UtilityDetail[];
     overheadCost: number;
+    overheadDetails: OverheadDetail[];
     hppPerUnit: number;
   };
-  suggestedPrice: number;
+  suggestedPrice: number; // Price of the selected strategy
   marginPercent: number;
+  pricingStrategy: PricingStrategy;
+  priceSuggestions: PriceSuggestion[]; // One per strategy, for comparison
+  channelPrices: ChannelPrice[]; // Keep the suggested price's profit after channel fees
+  trace?: HPPTraceStep[]; // Only when requested
+  variantId?: string; // Set on the results in `variants`
+  variants?: HPPResult[]; // One per variant, when the product has any
+}
+
+// Named what-if assumptions for the Calculator; unset fields keep the
+// product's own values
+export interface HPPScenario {
+  id: string;
+  name: string;
+  materialPrices: { materialId: string; pricePerUnit: number }[];
+  laborMinutes?: number;
+  batchMinutes?: number;
+  laborRateId?: string;
+  marginPercent?: number;
+  monthlyProduction?: number;
+  updatedAt: Date;
+}
+
+// What caused an HPP snapshot to be recorded
+export type SnapshotTrigger = 'manual' | 'material' | 'product' | 'settings';
+
+// One cost line of a snapshot, kept so snapshots can be diffed
+export interface SnapshotLine {
+  kind: 'material' | 'labor' | 'utility' | 'overhead';
+  key: string; // Stable across snapshots, e.g. the material or overhead name
+  name: string;
+  amount: number; // Per unit
+}
+
+export interface HPPSnapshot {
+  id: string;
+  productId: string;
+  computedAt: Date;
+  trigger: SnapshotTrigger;
+  hppPerUnit: number;
+  materialsTotal: number;
+  laborCost: number;
+  overheadCost: number;
+  suggestedPrice: number;
+  lines: SnapshotLine[];
 }
 
 export interface ForecastResult {
@@ -71,6 +361,7 @@ export interface ForecastResult {
   currentStock: number;
   recommendedRestock: number;
   averageDailySales: number;
+  bundleUnits: number; // Of the last 90 days' units, those sold inside bundles
   trend: 'up' | 'down' | 'stable';
   trendPercent: number;
 }